@@ -0,0 +1,215 @@
+import {
+	mkdir,
+	readFile,
+	readdir,
+	rename,
+	rm,
+	stat,
+	writeFile,
+} from "node:fs/promises";
+import { homedir } from "node:os";
+import { join } from "node:path";
+
+// Namespaces are file names in the cache directory, so no dots or slashes
+const NAMESPACE_PATTERN = /^[a-z0-9-]+$/;
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+/** Cache lifetimes per entry type */
+export const CACHE_TTL_MS = {
+	/** Available names can be registered at any moment */
+	available: HOUR_MS,
+	/** Registered names rarely drop */
+	registered: 7 * DAY_MS,
+	/** Registry-reserved names almost never change */
+	reserved: 7 * DAY_MS,
+	/** IANA RDAP bootstrap file */
+	bootstrap: DAY_MS,
+	/** Registrar TLD price lists (override with CacheOptions.pricingTtlMs) */
+	pricing: DAY_MS,
+	/** ECB reference exchange rates, published once a working day */
+	exchangeRates: DAY_MS,
+} as const;
+
+/**
+ * A cached value with its expiry time.
+ */
+interface CacheEntry<T> {
+	/** Cached value */
+	value: T;
+	/** Expiry as milliseconds since epoch */
+	expiresAt: number;
+}
+
+/** On-disk layout of one cache namespace */
+type CacheFile<T> = Record<string, CacheEntry<T>>;
+
+/**
+ * Statistics for one cache namespace.
+ */
+export interface CacheStats {
+	/** Namespace name (e.g., "availability") */
+	namespace: string;
+	/** Number of unexpired entries */
+	entries: number;
+	/** Number of expired entries still on disk */
+	expired: number;
+	/** File size in bytes */
+	bytes: number;
+}
+
+/**
+ * Gets the cache directory, following the XDG base directory spec.
+ * @returns Absolute path to the domain-muse cache directory
+ */
+export function getCacheDir(): string {
+	const base = process.env.XDG_CACHE_HOME || join(homedir(), ".cache");
+	return join(base, "domain-muse");
+}
+
+/**
+ * Gets the file path for a cache namespace.
+ * @param namespace - Namespace name
+ * @returns Absolute path to the namespace file
+ * @throws Error if the name could point outside the cache directory
+ */
+function namespacePath(namespace: string): string {
+	if (!NAMESPACE_PATTERN.test(namespace)) {
+		throw new Error(`Invalid cache namespace: ${namespace}`);
+	}
+	return join(getCacheDir(), `${namespace}.json`);
+}
+
+/**
+ * Loads a cache namespace from disk.
+ * Missing or corrupt files are treated as empty.
+ * @param namespace - Namespace name
+ * @returns Cache entries keyed by cache key
+ */
+async function loadNamespace<T>(namespace: string): Promise<CacheFile<T>> {
+	try {
+		const raw = await readFile(namespacePath(namespace), "utf8");
+		const data = JSON.parse(raw) as unknown;
+		return data && typeof data === "object" ? (data as CacheFile<T>) : {};
+	} catch {
+		return {};
+	}
+}
+
+/**
+ * Writes a cache namespace to disk atomically (temp file + rename).
+ * @param namespace - Namespace name
+ * @param data - Cache entries to write
+ */
+async function saveNamespace<T>(
+	namespace: string,
+	data: CacheFile<T>,
+): Promise<void> {
+	const path = namespacePath(namespace);
+	const tmpPath = `${path}.${process.pid}.tmp`;
+	await mkdir(getCacheDir(), { recursive: true });
+	await writeFile(tmpPath, JSON.stringify(data), "utf8");
+	await rename(tmpPath, path);
+}
+
+/**
+ * Reads unexpired values from the cache.
+ * Never throws: cache problems are treated as misses.
+ * @param namespace - Namespace name
+ * @param keys - Keys to look up
+ * @returns Map of key to cached value for hits only
+ */
+export async function getCached<T>(
+	namespace: string,
+	keys: string[],
+): Promise<Map<string, T>> {
+	const data = await loadNamespace<T>(namespace);
+	const now = Date.now();
+	const hits = new Map<string, T>();
+
+	for (const key of keys) {
+		const entry = data[key];
+		if (entry && entry.expiresAt > now) {
+			hits.set(key, entry.value);
+		}
+	}
+
+	return hits;
+}
+
+/**
+ * Stores values in the cache and prunes expired entries.
+ * Never throws: a failed write only means the next run misses.
+ * @param namespace - Namespace name
+ * @param entries - Values to store with their lifetimes
+ */
+export async function setCached<T>(
+	namespace: string,
+	entries: Array<{ key: string; value: T; ttlMs: number }>,
+): Promise<void> {
+	if (entries.length === 0) return;
+
+	try {
+		const data = await loadNamespace<T>(namespace);
+		const now = Date.now();
+
+		for (const [key, entry] of Object.entries(data)) {
+			if (entry.expiresAt <= now) delete data[key];
+		}
+		for (const { key, value, ttlMs } of entries) {
+			data[key] = { value, expiresAt: now + ttlMs };
+		}
+
+		await saveNamespace(namespace, data);
+	} catch {
+		// Cache is best-effort
+	}
+}
+
+/**
+ * Collects statistics for every cache namespace on disk.
+ * @returns Stats per namespace, sorted by name
+ */
+export async function getCacheStats(): Promise<CacheStats[]> {
+	let files: string[];
+	try {
+		files = await readdir(getCacheDir());
+	} catch {
+		return [];
+	}
+
+	const now = Date.now();
+	const stats: CacheStats[] = [];
+
+	for (const file of files.filter((f) => f.endsWith(".json")).sort()) {
+		const namespace = file.slice(0, -".json".length);
+		if (!NAMESPACE_PATTERN.test(namespace)) continue;
+		const data = await loadNamespace<unknown>(namespace);
+		const entries = Object.values(data);
+		const { size } = await stat(namespacePath(namespace));
+		const expired = entries.filter((e) => e.expiresAt <= now).length;
+
+		stats.push({
+			namespace,
+			entries: entries.length - expired,
+			expired,
+			bytes: size,
+		});
+	}
+
+	return stats;
+}
+
+/**
+ * Deletes cached data.
+ * @param namespace - Namespace to clear (default: the whole cache directory)
+ * @throws Error if the namespace is not a plain name like "availability"
+ */
+export async function clearCache(namespace?: string): Promise<void> {
+	if (namespace) {
+		await rm(namespacePath(namespace), { force: true });
+	} else {
+		await rm(getCacheDir(), { recursive: true, force: true });
+	}
+}
@@ -0,0 +1,527 @@
+import { CACHE_TTL_MS, getCached, setCached } from "./cache.js";
+import { checkDomainsViaDns, prefilterViaDns } from "./dns.js";
+import { checkIdnSupport, getIdnForms, toAscii } from "./idn.js";
+import { checkDomains as checkDomainsNamecheap } from "./namecheap.js";
+import { parseDomain } from "./publicsuffix.js";
+import { checkDomainsViaRdap, createRdapLimiter } from "./rdap.js";
+import type {
+	AvailabilityChecker,
+	CheckContext,
+	CheckerPlan,
+	DomainCheckResult,
+	RateLimiters,
+	RateLimits,
+} from "./types.js";
+import { abortMessage, iterateEmitted, withDeadline } from "./util.js";
+import { checkDomainsViaWhois, createWhoisLimiter } from "./whois.js";
+
+/** Checker chain used when no plan is given: RDAP with WHOIS fallback */
+export const DEFAULT_CHECKERS = ["rdap", "whois"];
+
+/** Checker prepended to every chain when a plan enables dnsPrefilter */
+const DNS_PREFILTER_CHECKER = "dns-prefilter";
+
+/** Second sources for verifying available results, in order of preference */
+const VERIFY_CHECKERS = ["namecheap", "whois", "rdap", "dns"];
+
+const AVAILABILITY_CACHE_NAMESPACE = "availability";
+
+const registry = new Map<string, AvailabilityChecker>();
+
+/**
+ * Registers an availability checker, replacing any with the same name.
+ * @param checker - Checker to register
+ */
+export function registerChecker(checker: AvailabilityChecker): void {
+	registry.set(checker.name.toLowerCase(), checker);
+}
+
+/**
+ * Looks up a registered checker by name.
+ * @param name - Checker name (case-insensitive)
+ * @returns The checker, or undefined if not registered
+ */
+export function getChecker(name: string): AvailabilityChecker | undefined {
+	return registry.get(name.toLowerCase());
+}
+
+/**
+ * Lists all registered checkers.
+ * @returns Registered checkers in registration order
+ */
+export function listCheckers(): AvailabilityChecker[] {
+	return [...registry.values()];
+}
+
+/**
+ * Resolves checker names to registered checkers.
+ * @param names - Checker names in chain order
+ * @returns Resolved checkers
+ * @throws Error if any name is not registered
+ */
+function resolveChain(names: string[]): AvailabilityChecker[] {
+	return names.map((name) => {
+		const checker = getChecker(name);
+		if (!checker) {
+			throw new Error(
+				`Unknown checker "${name}". Available: ${listCheckers()
+					.map((c) => c.name)
+					.join(", ")}`,
+			);
+		}
+		return checker;
+	});
+}
+
+/**
+ * Creates a promise that rejects when a signal aborts.
+ * @param signal - Signal to watch
+ * @returns Promise that never resolves
+ * @throws The signal's abort reason
+ */
+function rejectOnAbort(signal: AbortSignal): Promise<never> {
+	return new Promise((_, reject) => {
+		if (signal.aborted) reject(signal.reason);
+		signal.addEventListener("abort", () => reject(signal.reason), {
+			once: true,
+		});
+	});
+}
+
+/**
+ * Runs domains through a checker chain.
+ * Each checker only receives domains the previous ones returned errors for.
+ * Results record the checker that produced them in checkedBy.
+ * Final results are passed to context.onResult once each, as they arrive.
+ * Once context.signal aborts, remaining domains come back unknown unchecked,
+ * without checkedBy, since no checker decided them.
+ * @param chain - Checkers in order
+ * @param domains - Domain names to check
+ * @param context - Shared check context
+ * @returns Map of domain to final check result
+ */
+async function runChain(
+	chain: AvailabilityChecker[],
+	domains: string[],
+	context: CheckContext,
+): Promise<Map<string, DomainCheckResult>> {
+	const results = new Map<string, DomainCheckResult>();
+	const reported = new Set<string>();
+	let pending = domains;
+
+	const report = (r: DomainCheckResult): void => {
+		if (reported.has(r.domain)) return;
+		reported.add(r.domain);
+		context.onResult?.(r);
+	};
+	// Results cut short by the signal were not decided by the checker
+	const attribute = (
+		r: DomainCheckResult,
+		checker: AvailabilityChecker,
+	): DomainCheckResult =>
+		r.checkedBy || (r.status === "unknown" && context.signal?.aborted)
+			? r
+			: { ...r, checkedBy: checker.name };
+
+	for (const [index, checker] of chain.entries()) {
+		if (pending.length === 0) break;
+		if (context.signal?.aborted) break;
+		// Errors are only final once no checker is left to retry them
+		const isLast = index === chain.length - 1;
+		const isFinal = (r: DomainCheckResult) =>
+			isLast || r.error === undefined || context.signal?.aborted === true;
+
+		let batch: DomainCheckResult[];
+		try {
+			const check = checker.check(pending, {
+				...context,
+				onResult: (result) => {
+					if (!isFinal(result)) return;
+					const r = attribute(result, checker);
+					results.set(r.domain, r);
+					report(r);
+				},
+			});
+			// Checkers that ignore the signal must not hold up an aborted call
+			batch = await (context.signal
+				? Promise.race([check, rejectOnAbort(context.signal)])
+				: check);
+		} catch (e) {
+			const error = context.signal?.aborted
+				? abortMessage(context.signal)
+				: `${checker.name}: ${e instanceof Error ? e.message : "Unknown error"}`;
+			batch = pending
+				.filter((domain) => !reported.has(domain))
+				.map((domain) => ({
+					domain,
+					status: "unknown",
+					available: false,
+					isPremium: false,
+					error,
+				}));
+		}
+
+		for (const result of batch) {
+			if (reported.has(result.domain)) continue;
+			const r = attribute(result, checker);
+			results.set(r.domain, r);
+			if (isFinal(r)) report(r);
+		}
+		pending = pending.filter((d) => {
+			const r = results.get(d);
+			return !r || r.error !== undefined;
+		});
+	}
+
+	const { signal } = context;
+	if (signal?.aborted) {
+		for (const domain of pending) {
+			const previous = results.get(domain);
+			const r: DomainCheckResult = previous ?? {
+				domain,
+				status: "unknown",
+				available: false,
+				isPremium: false,
+				error: abortMessage(signal),
+			};
+			results.set(domain, r);
+			report(r);
+		}
+	}
+
+	return results;
+}
+
+/**
+ * Gives registered and reserved results high confidence when verifying.
+ * A registry reporting a name as taken is not re-checked.
+ * @param result - Check result
+ * @returns Result with confidence set, or the same result otherwise
+ */
+function withTakenConfidence(result: DomainCheckResult): DomainCheckResult {
+	if (result.status !== "registered" && result.status !== "reserved") {
+		return result;
+	}
+	return { ...result, confidence: result.confidence ?? "high" };
+}
+
+/**
+ * Re-checks available results with an independent checker and sets confidence.
+ * Each result is verified by the first checker in VERIFY_CHECKERS that did not
+ * decide it (Namecheap only with credentials), falling through on errors.
+ * Agreement gives high confidence, a contradiction low confidence with the
+ * disagreement flagged, and no usable second answer medium confidence.
+ * Registered and reserved results get high confidence without a re-check.
+ * @param results - Results from the primary checkers
+ * @param context - Shared check context
+ * @returns Results with confidence and verification set
+ * @throws Error if a verification checker is not registered
+ */
+async function verifyResults(
+	results: DomainCheckResult[],
+	context: CheckContext,
+): Promise<DomainCheckResult[]> {
+	// Group by deciding checker so each group skips its own source
+	const groups = new Map<string, string[]>();
+	for (const r of results) {
+		if (r.status !== "available") continue;
+		const first = r.checkedBy ?? "";
+		groups.set(first, [...(groups.get(first) ?? []), r.domain]);
+	}
+
+	const second = new Map<string, DomainCheckResult>();
+	for (const [first, domains] of groups) {
+		const names = VERIFY_CHECKERS.filter(
+			(name) =>
+				name !== first && (name !== "namecheap" || context.namecheapConfig),
+		);
+		const checks = await runChain(resolveChain(names), domains, {
+			...context,
+			onResult: undefined,
+		});
+		for (const [domain, check] of checks) second.set(domain, check);
+	}
+
+	return results.map((r): DomainCheckResult => {
+		if (r.status !== "available") return withTakenConfidence(r);
+
+		const check = second.get(r.domain);
+		if (!check?.checkedBy || check.status === "unknown") {
+			return { ...r, confidence: "medium" };
+		}
+
+		const disagrees = check.status !== "available";
+		return {
+			...r,
+			// A registrar API also knows premium pricing the registry does not
+			isPremium: r.isPremium || check.isPremium,
+			premiumPrice: r.premiumPrice ?? check.premiumPrice,
+			premiumRenewPrice: r.premiumRenewPrice ?? check.premiumRenewPrice,
+			confidence: disagrees ? "low" : "high",
+			verification: {
+				checker: check.checkedBy,
+				status: check.status,
+				disagrees,
+			},
+		};
+	});
+}
+
+/**
+ * Gets the cache key for a domain.
+ * Unicode and punycode spellings of an IDN share one entry.
+ * @param domain - Domain name
+ * @returns Lowercase ASCII form
+ */
+function cacheKey(domain: string): string {
+	return toAscii(domain) || domain.toLowerCase();
+}
+
+/**
+ * Adds punycode and Unicode forms to results for internationalized names.
+ * @param result - Check result
+ * @returns Result with IDN forms, or the same result for ASCII names
+ */
+function withIdnForms(result: DomainCheckResult): DomainCheckResult {
+	const forms = getIdnForms(result.domain);
+	return forms ? { ...result, ...forms } : result;
+}
+
+/**
+ * Creates the RDAP and WHOIS rate limiters for one run of lookups.
+ * Pass them as CheckContext.limiters to share throttling state across calls.
+ * @param rateLimits - User-supplied limits (defaults per protocol otherwise)
+ * @returns Rate limiters
+ */
+export function createRateLimiters(rateLimits?: RateLimits): RateLimiters {
+	return {
+		rdap: createRdapLimiter(rateLimits?.rdap),
+		whois: createWhoisLimiter(rateLimits?.whois),
+	};
+}
+
+/**
+ * Checks availability of multiple domains using a checker plan.
+ * Domains are grouped by public suffix so each group runs through its own chain;
+ * an override for "co.uk" beats one for "uk".
+ * With plan.dnsPrefilter, delegated names are marked registered via DNS
+ * before any registry lookup. With plan.verify, available results are
+ * re-checked by an independent checker before they are reported.
+ * With a cache in the context, fresh cached results skip the lookup entirely
+ * and definitive new results are stored for next time.
+ * Internationalized names may be given in either form; names in a script
+ * the registry does not accept come back unknown without a lookup.
+ * With context.onResult set, each result is also reported as soon as it is known.
+ * When context.signal aborts or context.deadline passes, the call returns
+ * promptly with unfinished domains marked unknown.
+ * @param domains - Array of domain names to check
+ * @param plan - Checker plan (default: RDAP with WHOIS fallback)
+ * @param context - Shared check context (e.g., Namecheap credentials); without
+ *   limiters, one set is created for this call and shared by every checker
+ * @returns Array of check results in same order as input
+ * @throws Error if the plan references an unknown checker
+ */
+export async function checkDomainsWith(
+	domains: string[],
+	plan: CheckerPlan = { default: DEFAULT_CHECKERS },
+	context: CheckContext = {},
+): Promise<DomainCheckResult[]> {
+	const byTld = new Map<string, string[]>(
+		Object.entries(plan.byTld ?? {}).map(([tld, names]) => [
+			tld.toLowerCase().replace(/^\./, ""),
+			names,
+		]),
+	);
+
+	const resultMap = new Map<string, DomainCheckResult>();
+	const onResult = (r: DomainCheckResult) =>
+		context.onResult?.(withIdnForms(r));
+	const signal = withDeadline(context.signal, context.deadline);
+
+	if (context.cache && !context.cache.refresh) {
+		const hits = await getCached<DomainCheckResult>(
+			AVAILABILITY_CACHE_NAMESPACE,
+			domains.map(cacheKey),
+		);
+		for (const domain of domains) {
+			const hit = hits.get(cacheKey(domain));
+			// Unverified available results are checked again when verifying
+			if (
+				!hit ||
+				(plan.verify && hit.status === "available" && !hit.confidence)
+			) {
+				continue;
+			}
+			const result = { ...hit, domain, cached: true };
+			resultMap.set(domain, plan.verify ? withTakenConfidence(result) : result);
+		}
+	}
+
+	for (const domain of domains) {
+		if (resultMap.has(domain)) continue;
+		const idnError = checkIdnSupport(domain);
+		if (idnError) {
+			resultMap.set(domain, {
+				domain,
+				status: "unknown",
+				available: false,
+				isPremium: false,
+				error: idnError,
+			});
+		}
+	}
+
+	// Cached and rejected names are known before any lookup
+	for (const r of resultMap.values()) onResult(r);
+
+	// Group uncached domains by the chain that will handle them
+	const groups = new Map<string, { chain: string[]; domains: string[] }>();
+	for (const domain of domains) {
+		if (resultMap.has(domain)) continue;
+		const parsed = parseDomain(domain);
+		const planned =
+			(parsed && (byTld.get(parsed.suffix) ?? byTld.get(parsed.tld))) ??
+			plan.default;
+		const chain =
+			plan.dnsPrefilter && planned[0] !== DNS_PREFILTER_CHECKER
+				? [DNS_PREFILTER_CHECKER, ...planned]
+				: planned;
+		const key = chain.join(",");
+		const group = groups.get(key) ?? { chain, domains: [] };
+		group.domains.push(domain);
+		groups.set(key, group);
+	}
+
+	// Resolve every chain up front so an unknown name fails before any lookups
+	const resolved = [...groups.values()].map((g) => ({
+		chain: resolveChain(g.chain),
+		domains: g.domains,
+	}));
+
+	const fresh: DomainCheckResult[] = [];
+	const limiters = context.limiters ?? createRateLimiters(context.rateLimits);
+	for (const { chain, domains: groupDomains } of resolved) {
+		const chainContext = {
+			...context,
+			limiters,
+			signal,
+			deadline: undefined,
+		};
+		const results = await runChain(chain, groupDomains, {
+			...chainContext,
+			// Available results are held back until verified
+			onResult: plan.verify
+				? (r) => {
+						if (r.status !== "available") onResult(withTakenConfidence(r));
+					}
+				: onResult,
+		});
+
+		let groupResults = [...results.values()];
+		if (plan.verify) {
+			groupResults = await verifyResults(groupResults, chainContext);
+			for (const r of groupResults) {
+				if (r.status === "available") onResult(r);
+			}
+		}
+
+		for (const result of groupResults) {
+			resultMap.set(result.domain, result);
+			fresh.push(result);
+		}
+	}
+
+	if (context.cache) {
+		// Unknown results are never cached so the next run retries them
+		const entries = [];
+		for (const r of fresh) {
+			if (r.status === "unknown") continue;
+			entries.push({
+				key: cacheKey(r.domain),
+				value: r,
+				ttlMs: CACHE_TTL_MS[r.status],
+			});
+		}
+		await setCached(AVAILABILITY_CACHE_NAMESPACE, entries);
+	}
+
+	return domains.map((d) => {
+		const result = resultMap.get(d);
+		if (result) return withIdnForms(result);
+
+		const missing: DomainCheckResult = {
+			domain: d,
+			status: "unknown",
+			available: false,
+			isPremium: false,
+			error: "Result missing",
+		};
+		onResult(missing);
+		return missing;
+	});
+}
+
+/**
+ * Checks availability like checkDomainsWith, yielding results as they arrive.
+ * Cached results come first, then lookups in completion order.
+ * @param domains - Array of domain names to check
+ * @param plan - Checker plan (default: RDAP with WHOIS fallback)
+ * @param context - Shared check context (e.g., Namecheap credentials)
+ * @returns Async iterator over check results, one per input domain
+ * @throws Error if the plan references an unknown checker
+ */
+export async function* checkDomainsStream(
+	domains: string[],
+	plan: CheckerPlan = { default: DEFAULT_CHECKERS },
+	context: CheckContext = {},
+): AsyncGenerator<DomainCheckResult> {
+	yield* iterateEmitted<DomainCheckResult>(async (emit) => {
+		await checkDomainsWith(domains, plan, {
+			...context,
+			onResult: (r) => {
+				context.onResult?.(r);
+				emit(r);
+			},
+		});
+	});
+}
+
+registerChecker({
+	name: "rdap",
+	description: "RDAP lookup via IANA bootstrap servers",
+	check: (domains, context) => checkDomainsViaRdap(domains, context),
+});
+
+registerChecker({
+	name: "whois",
+	description: "WHOIS lookup over TCP port 43",
+	check: (domains, context) => checkDomainsViaWhois(domains, context),
+});
+
+registerChecker({
+	name: "dns",
+	description: "NS record lookup (fast heuristic, may report false positives)",
+	check: (domains, context) => checkDomainsViaDns(domains, context),
+});
+
+registerChecker({
+	name: DNS_PREFILTER_CHECKER,
+	description:
+		"NS/SOA lookup that only confirms registered names; put it before a registry checker",
+	check: (domains, context) => prefilterViaDns(domains, context),
+});
+
+registerChecker({
+	name: "namecheap",
+	description: "Namecheap domains.check API (requires credentials)",
+	check: async (domains, context) => {
+		if (!context.namecheapConfig) {
+			throw new Error("Namecheap credentials not configured");
+		}
+		return checkDomainsNamecheap(
+			context.namecheapConfig,
+			domains,
+			context.signal,
+		);
+	},
+});
@@ -1,16 +1,70 @@
 #!/usr/bin/env node
+import { isIP } from "node:net";
+import { createInterface } from "node:readline/promises";
 import chalk from "chalk";
 import Table from "cli-table3";
-import { InvalidArgumentError, program } from "commander";
-import ora from "ora";
-import { getTldPricing } from "./namecheap.js";
-import { checkDomains } from "./rdap.js";
-import { searchDomains } from "./search.js";
+import { type Command, InvalidArgumentError, program } from "commander";
+import ora, { type Ora } from "ora";
+import { clearCache, getCacheDir, getCacheStats } from "./cache.js";
+import {
+	DEFAULT_CHECKERS,
+	checkDomainsStream,
+	getChecker,
+} from "./checkers.js";
+import {
+	DEFAULT_PROFILE,
+	getConfigPath,
+	loadLlmConfig,
+	loadProfile,
+} from "./config.js";
+import { convertPricing, formatMoney, getExchangeRates } from "./currency.js";
+import { findDomainHacksForWords } from "./hacks.js";
+import { toAscii } from "./idn.js";
+import {
+	NAMECHEAP_ERRORS,
+	NamecheapApiError,
+	checkDomains as checkDomainsNamecheap,
+	getTldPricing,
+	registerDomain,
+} from "./namecheap.js";
+import { daysUntilExpiry, filterExpiring, getPortfolio } from "./portfolio.js";
+import { MAX_YEARS, getPremiumTotalCost, getTotalCost } from "./pricing.js";
+import {
+	LLM_PROVIDERS,
+	isLlmProvider,
+	listLlmProviders,
+	resolveLlmConfig,
+	validateBaseUrl,
+} from "./provider.js";
+import type { ResolvedLlmConfig } from "./provider.js";
+import { isPublicSuffix, parseDomain } from "./publicsuffix.js";
+import { getDomainInfo } from "./rdap.js";
+import {
+	comparePricing,
+	findCheapest,
+	getRegistrar,
+	listRegistrars,
+} from "./registrars.js";
+import { searchDomainsStream, sortSearchResults } from "./search.js";
+import type { SearchResult } from "./search.js";
 import type {
+	CacheOptions,
+	CheckerPlan,
 	DomainCheckResult,
 	DomainSearchResult,
+	ExchangeRates,
+	LlmConfig,
+	LlmProviderName,
+	NameGenerator,
+	NameScore,
 	NamecheapConfig,
+	OwnedDomain,
+	RateLimits,
+	RegistrarConfig,
+	RegistrarPricing,
+	TldPricing,
 } from "./types.js";
+import { isValidDomain } from "./util.js";
 
 /**
  * Parses and validates a positive integer CLI argument.
@@ -42,6 +96,126 @@ function parseNonNegativeFloat(value: string, name: string): number {
 	return parsed;
 }
 
+/**
+ * Parses and validates a positive float CLI argument.
+ * @param value - Raw string value from CLI
+ * @param name - Argument name for error messages
+ * @returns Parsed positive number
+ * @throws InvalidArgumentError if zero, negative or NaN
+ */
+function parsePositiveFloat(value: string, name: string): number {
+	const parsed = Number.parseFloat(value);
+	if (Number.isNaN(parsed) || parsed <= 0) {
+		throw new InvalidArgumentError(`${name} must be a positive number`);
+	}
+	return parsed;
+}
+
+/**
+ * Parses and validates a --min-score argument.
+ * @param value - Raw string value from CLI
+ * @returns Minimum name score
+ * @throws InvalidArgumentError if not between 0 and 100
+ */
+function parseMinScore(value: string): number {
+	const parsed = Number.parseFloat(value);
+	if (Number.isNaN(parsed) || parsed < 0 || parsed > 100) {
+		throw new InvalidArgumentError("min-score must be between 0 and 100");
+	}
+	return parsed;
+}
+
+/**
+ * Parses and validates an ownership horizon in years.
+ * @param value - Raw string value from CLI
+ * @returns Whole number of years
+ * @throws InvalidArgumentError if not between 1 and MAX_YEARS
+ */
+function parseYears(value: string): number {
+	const parsed = Number(value);
+	if (!Number.isInteger(parsed) || parsed < 1 || parsed > MAX_YEARS) {
+		throw new InvalidArgumentError(
+			`years must be a whole number from 1 to ${MAX_YEARS}`,
+		);
+	}
+	return parsed;
+}
+
+/**
+ * Parses and validates a --currency argument.
+ * @param value - Raw string value from CLI
+ * @returns Upper-case ISO 4217 currency code
+ * @throws InvalidArgumentError if not a three-letter code
+ */
+function parseCurrency(value: string): string {
+	const code = value.trim().toUpperCase();
+	if (!/^[A-Z]{3}$/.test(code)) {
+		throw new InvalidArgumentError(
+			"currency must be a three-letter code (e.g., EUR, GBP, JPY)",
+		);
+	}
+	return code;
+}
+
+/**
+ * Parses and validates a --generator argument.
+ * @param value - Raw string value from CLI
+ * @returns Generator name
+ * @throws InvalidArgumentError if not llm, rules or both
+ */
+function parseGenerator(value: string): NameGenerator {
+	if (value !== "llm" && value !== "rules" && value !== "both") {
+		throw new InvalidArgumentError("generator must be llm, rules, or both");
+	}
+	return value;
+}
+
+/**
+ * Parses and validates a --seed argument.
+ * @param value - Raw string value from CLI
+ * @returns Non-negative integer seed
+ * @throws InvalidArgumentError if not a non-negative integer
+ */
+function parseSeed(value: string): number {
+	const parsed = Number(value);
+	if (!Number.isSafeInteger(parsed) || parsed < 0) {
+		throw new InvalidArgumentError("seed must be a non-negative integer");
+	}
+	return parsed;
+}
+
+/**
+ * Parses and validates a --provider argument.
+ * @param value - Raw string value from CLI
+ * @returns Provider name
+ * @throws InvalidArgumentError if the provider is not supported
+ */
+function parseProvider(value: string): LlmProviderName {
+	const name = value.trim().toLowerCase();
+	if (!isLlmProvider(name)) {
+		throw new InvalidArgumentError(
+			`provider must be one of: ${LLM_PROVIDERS.join(", ")}`,
+		);
+	}
+	return name;
+}
+
+/**
+ * Parses and validates a --base-url argument.
+ * @param value - Raw string value from CLI
+ * @returns URL without a trailing slash
+ * @throws InvalidArgumentError if not an http(s) URL
+ */
+function parseBaseUrl(value: string): string {
+	try {
+		return validateBaseUrl(value.trim());
+	} catch (e) {
+		throw new InvalidArgumentError(
+			e instanceof Error ? e.message : "invalid base URL",
+		);
+	}
+}
+
 /**
  * Parses and validates creativity level (0-1 range).
  * @param value - Raw string value from CLI
@@ -58,23 +232,29 @@ function parseCreativity(value: string): number {
 
 /**
  * Parses comma-separated TLD list, filtering empty strings.
- * @param value - Comma-separated TLD string (e.g., "com,io,co")
- * @returns Array of lowercase TLDs
- * @throws InvalidArgumentError if no valid TLDs provided
+ * Multi-label entries must be known public suffixes (e.g., "co.uk").
+ * @param value - Comma-separated TLD string (e.g., "com,io,co.uk")
+ * @returns Array of lowercase TLDs without leading dots
+ * @throws InvalidArgumentError if no valid TLDs provided or a suffix is unknown
  */
 function parseTlds(value: string): string[] {
 	const tlds = value
 		.split(",")
-		.map((t) => t.trim().toLowerCase())
+		.map((t) => t.trim().toLowerCase().replace(/^\./, ""))
 		.filter((t) => t.length > 0);
 	if (tlds.length === 0) {
 		throw new InvalidArgumentError("at least one TLD is required");
 	}
+	for (const tld of tlds) {
+		if (!isPublicSuffix(tld)) {
+			throw new InvalidArgumentError(`"${tld}" is not a known public suffix`);
+		}
+	}
 	return tlds;
 }
 
 /** Valid sort option values */
-const VALID_SORT_OPTIONS = ["price", "name", "length"] as const;
+const VALID_SORT_OPTIONS = ["price", "name", "length", "score"] as const;
 /** Sort option type derived from valid options */
 type SortOption = (typeof VALID_SORT_OPTIONS)[number];
 
@@ -93,6 +273,245 @@ function parseSort(value: string): SortOption {
 	return value as SortOption;
 }
 
+/**
+ * Parses a comma-separated list of registrar adapter names.
+ * @param value - Raw string value from CLI (e.g., "porkbun,gandi")
+ * @returns Lowercase registrar names
+ * @throws InvalidArgumentError if empty or a name is not a registered adapter
+ */
+function parseRegistrars(value: string): string[] {
+	const names = value
+		.split(",")
+		.map((n) => n.trim().toLowerCase())
+		.filter((n) => n.length > 0);
+	if (names.length === 0) {
+		throw new InvalidArgumentError("at least one registrar is required");
+	}
+	for (const name of names) {
+		if (!getRegistrar(name)) {
+			throw new InvalidArgumentError(`unknown registrar "${name}"`);
+		}
+	}
+	return names;
+}
+
+/** Milliseconds per duration unit */
+const DURATION_UNITS_MS: Record<string, number> = {
+	ms: 1,
+	s: 1000,
+	m: 60_000,
+	h: 3_600_000,
+	d: 86_400_000,
+};
+
+/**
+ * Parses a duration such as "30s", "2m" or "500ms" (bare numbers are seconds).
+ * @param value - Raw string value from CLI
+ * @param name - Argument name for error messages
+ * @returns Duration in milliseconds
+ * @throws InvalidArgumentError if the value is not a positive duration
+ */
+function parseDuration(value: string, name: string): number {
+	const match = value.trim().match(/^(\d+(?:\.\d+)?)(ms|s|m|h|d)?$/i);
+	const amount = Number(match?.[1]);
+	const unit = DURATION_UNITS_MS[match?.[2]?.toLowerCase() ?? "s"];
+	if (!match || !unit || !(amount > 0)) {
+		throw new InvalidArgumentError(
+			`${name} must be a positive duration (e.g., 30s, 2m, 500ms)`,
+		);
+	}
+	return amount * unit;
+}
+
+/**
+ * Parses a checker chain and merges it into the accumulated plan.
+ * Accepts "rdap,whois" (default chain) or "io:whois,dns" (per-TLD chain).
+ * @param value - Raw string value from CLI
+ * @param previous - Plan accumulated from earlier --checker flags
+ * @returns Updated checker plan
+ * @throws InvalidArgumentError if the chain is empty or names an unknown checker
+ */
+function parseChecker(
+	value: string,
+	previous: CheckerPlan | undefined,
+): CheckerPlan {
+	const separator = value.indexOf(":");
+	const tld =
+		separator === -1
+			? undefined
+			: value.slice(0, separator).trim().toLowerCase().replace(/^\./, "");
+	const names = value
+		.slice(separator + 1)
+		.split(",")
+		.map((n) => n.trim().toLowerCase())
+		.filter((n) => n.length > 0);
+
+	if (names.length === 0 || tld === "") {
+		throw new InvalidArgumentError(
+			'checker must be "name[,name...]" or "tld:name[,name...]"',
+		);
+	}
+	for (const name of names) {
+		if (!getChecker(name)) {
+			throw new InvalidArgumentError(`unknown checker "${name}"`);
+		}
+	}
+
+	const plan: CheckerPlan = {
+		default: previous?.default ?? DEFAULT_CHECKERS,
+		byTld: { ...previous?.byTld },
+	};
+	if (tld) {
+		plan.byTld = { ...plan.byTld, [tld]: names };
+	} else {
+		plan.default = names;
+	}
+	return plan;
+}
+
+/**
+ * Parses a comma-separated list of DNS resolver addresses.
+ * Accepts IPv4/IPv6 addresses with optional port ("1.1.1.1", "[2606:4700::1111]:53").
+ * @param value - Raw string value from CLI
+ * @returns Resolver addresses
+ * @throws InvalidArgumentError if an entry is not an IP address
+ */
+function parseDnsServers(value: string): string[] {
+	const servers = value
+		.split(",")
+		.map((s) => s.trim())
+		.filter((s) => s.length > 0);
+	if (servers.length === 0) {
+		throw new InvalidArgumentError("at least one DNS server is required");
+	}
+	for (const server of servers) {
+		const host = server
+			.replace(/^\[(.+)\](:\d+)?$/, "$1")
+			.replace(/^([\d.]+):\d+$/, "$1");
+		if (!isIP(host)) {
+			throw new InvalidArgumentError(`invalid DNS server "${server}"`);
+		}
+	}
+	return servers;
+}
+
+/**
+ * Builds the checker plan from the --checker, --dns-prefilter and --verify flags.
+ * @param options - Parsed command options
+ * @returns Checker plan
+ */
+function getCheckerPlan(options: {
+	checker?: CheckerPlan;
+	dnsPrefilter: boolean;
+	verify: boolean;
+}): CheckerPlan {
+	return {
+		...(options.checker ?? { default: DEFAULT_CHECKERS }),
+		dnsPrefilter: options.dnsPrefilter,
+		verify: options.verify,
+	};
+}
+
+/** Help text for the --checker option */
+const CHECKER_HELP =
+	'Availability checker chain, optionally per TLD (e.g., "rdap,whois" or "io:whois"); repeatable';
+
+/**
+ * Creates a signal that aborts on the first Ctrl-C, so partial results can be shown.
+ * A second Ctrl-C exits immediately.
+ * @param onInterrupt - Called when the first Ctrl-C arrives
+ * @returns Abort signal for the running command
+ */
+function interruptSignal(onInterrupt: () => void): AbortSignal {
+	const controller = new AbortController();
+	process.once("SIGINT", () => {
+		onInterrupt();
+		controller.abort();
+		process.once("SIGINT", () => process.exit(130));
+	});
+	return controller.signal;
+}
+
+/** Spinner text shown after the first Ctrl-C */
+const STOPPING_TEXT =
+	"Stopping, showing partial results (Ctrl-C again to quit)...";
+
+/**
+ * Builds cache options from the --no-cache and --refresh flags.
+ * @param options - Parsed command options
+ * @returns Cache options, or undefined if caching is disabled
+ */
+function getCacheOptions(options: {
+	cache: boolean;
+	refresh: boolean;
+	pricingTtl?: number;
+}): CacheOptions | undefined {
+	return options.cache
+		? { refresh: options.refresh, pricingTtlMs: options.pricingTtl }
+		: undefined;
+}
+
+/**
+ * Loads exchange rates when --currency asks for a conversion.
+ * @param options - Parsed command options (--currency, --rates and cache flags)
+ * @returns Exchange rates, or undefined if prices stay in USD
+ * @throws Error if no rate table can be read or fetched
+ */
+async function loadExchangeRates(options: {
+	currency?: string;
+	rates?: string;
+	cache: boolean;
+	refresh: boolean;
+}): Promise<ExchangeRates | undefined> {
+	if (!options.currency || options.currency === "USD") return undefined;
+	try {
+		return await getExchangeRates({
+			file: options.rates,
+			cache: getCacheOptions(options),
+		});
+	} catch (e) {
+		const message = e instanceof Error ? e.message : "Unknown error";
+		throw new Error(
+			options.rates
+				? message
+				: `${message} (pass a rate table with --rates <file>)`,
+		);
+	}
+}
+
+/**
+ * Builds per-host rate limits from the --rdap-rate and --whois-rate flags.
+ * @param options - Parsed command options
+ * @returns Rate limits (unset fields keep library defaults)
+ */
+function getRateLimits(options: {
+	rdapRate?: number;
+	whoisRate?: number;
+}): RateLimits {
+	return {
+		rdap: { requestsPerSecond: options.rdapRate },
+		whois: { requestsPerSecond: options.whoisRate },
+	};
+}
+
+/**
+ * Resolves the language model from CLI options, environment variables and
+ * the config file, in that order.
+ * @param options - Parsed CLI options with provider, model and baseUrl
+ * @returns Complete model selection
+ * @throws Error if the selection is invalid or no API key is set
+ */
+async function getLlmConfig(options: LlmConfig): Promise<ResolvedLlmConfig> {
+	return resolveLlmConfig(
+		{
+			provider: options.provider,
+			model: options.model,
+			baseUrl: options.baseUrl,
+		},
+		await loadLlmConfig(),
+	);
+}
+
 /**
  * Gets Namecheap configuration from environment variables.
  * @returns Config object if credentials are set, undefined otherwise
@@ -114,17 +533,48 @@ function getNamecheapConfig(): NamecheapConfig | undefined {
 	};
 }
 
+/**
+ * Gets credentials for every registrar from environment variables.
+ * Porkbun's pricing API is public, so it is always included.
+ * @returns Registrar config with the registrars that have credentials
+ */
+function getRegistrarConfig(): RegistrarConfig {
+	const config: RegistrarConfig = {
+		namecheap: getNamecheapConfig(),
+		porkbun: {},
+	};
+
+	if (process.env.GANDI_API_KEY) {
+		config.gandi = { apiKey: process.env.GANDI_API_KEY };
+	}
+
+	const cloudflareToken = process.env.CLOUDFLARE_API_TOKEN;
+	const cloudflareAccount = process.env.CLOUDFLARE_ACCOUNT_ID;
+	if (cloudflareToken && cloudflareAccount) {
+		config.cloudflare = {
+			apiToken: cloudflareToken,
+			accountId: cloudflareAccount,
+		};
+	}
+
+	return config;
+}
+
+/** TLDs compared by `pricing --compare` when none are given */
+const DEFAULT_COMPARE_TLDS = ["com", "net", "org", "io", "co", "ai", "app"];
+
 /**
  * Gets Namecheap config or exits with error if not configured.
+ * @param purpose - What the credentials are needed for, for the error message
  * @returns Namecheap configuration
  * @exits Process exits with code 1 if credentials missing
  */
-function requireNamecheapConfig(): NamecheapConfig {
+function requireNamecheapConfig(purpose: string): NamecheapConfig {
 	const config = getNamecheapConfig();
 	if (!config) {
 		console.error(
 			chalk.red(
-				"Error: NAMECHEAP_API_USER and NAMECHEAP_API_KEY environment variables required for pricing",
+				`Error: NAMECHEAP_API_USER and NAMECHEAP_API_KEY environment variables required for ${purpose}`,
 			),
 		);
 		process.exit(1);
@@ -132,41 +582,234 @@ function requireNamecheapConfig(): NamecheapConfig {
 	return config;
 }
 
+// Where Namecheap API access and the IP whitelist are managed
+const NAMECHEAP_API_ACCESS_URL =
+	"https://ap.www.namecheap.com/settings/tools/apiaccess/";
+
+/**
+ * Suggests a fix for a Namecheap API error.
+ * @param error - Error thrown by a Namecheap call
+ * @param config - Namecheap configuration used for the call
+ * @returns A one-line hint, or undefined if the error has no known fix
+ */
+function namecheapHint(
+	error: unknown,
+	config: NamecheapConfig,
+): string | undefined {
+	if (!(error instanceof NamecheapApiError)) return undefined;
+
+	if (
+		error.hasCode(NAMECHEAP_ERRORS.IP_NOT_WHITELISTED) ||
+		error.hasCode(NAMECHEAP_ERRORS.CLIENT_IP_INVALID)
+	) {
+		return `Whitelist this machine's public IP at ${NAMECHEAP_API_ACCESS_URL} and set NAMECHEAP_CLIENT_IP to it`;
+	}
+	if (error.hasCode(NAMECHEAP_ERRORS.API_KEY_INVALID)) {
+		return config.sandbox
+			? "Check NAMECHEAP_API_KEY: sandbox accounts have their own key, created at https://www.sandbox.namecheap.com"
+			: `Check NAMECHEAP_API_KEY and that API access is enabled at ${NAMECHEAP_API_ACCESS_URL} (sandbox keys need NAMECHEAP_SANDBOX=true)`;
+	}
+	if (
+		error.hasCode(NAMECHEAP_ERRORS.API_USER_MISSING) ||
+		error.hasCode(NAMECHEAP_ERRORS.API_KEY_MISSING)
+	) {
+		return "Set NAMECHEAP_API_USER and NAMECHEAP_API_KEY";
+	}
+	if (
+		error.hasCode(NAMECHEAP_ERRORS.API_USER_LOCKED) ||
+		error.hasCode(NAMECHEAP_ERRORS.IP_LOCKED)
+	) {
+		return "Namecheap has locked API access for this user or IP; contact Namecheap support";
+	}
+	return undefined;
+}
+
+/**
+ * Reports a failed Namecheap command with error codes and a fix-it hint.
+ * @param error - Error thrown by the command
+ * @param config - Namecheap configuration used for the command
+ * @param isJson - Print a JSON error object instead of text
+ * @param spinner - Spinner to fail, if one is running
+ */
+function printNamecheapError(
+	error: unknown,
+	config: NamecheapConfig,
+	isJson: boolean,
+	spinner: Ora | null,
+): void {
+	const message = error instanceof Error ? error.message : "Unknown error";
+	const hint = namecheapHint(error, config);
+
+	if (isJson) {
+		console.error(
+			JSON.stringify({
+				error: message,
+				codes: error instanceof NamecheapApiError ? error.codes : undefined,
+				hint,
+			}),
+		);
+		return;
+	}
+
+	if (spinner?.isSpinning) {
+		spinner.fail(chalk.red(message));
+	} else {
+		console.error(chalk.red(message));
+	}
+	if (hint) console.error(chalk.yellow(`Hint: ${hint}`));
+}
+
 /**
- * Formats a price for display with dollar sign and color.
+ * Formats a price for display with its currency symbol and color.
  * @param price - Price value or undefined
+ * @param currency - ISO 4217 currency code (default: USD)
  * @returns Formatted price string (green) or dash (dim) if undefined
  */
-function formatPrice(price: number | undefined): string {
+function formatPrice(price: number | undefined, currency = "USD"): string {
 	if (price === undefined) return chalk.dim("-");
-	return chalk.green(`$${price.toFixed(2)}`);
+	return chalk.green(formatMoney(price, currency));
+}
+
+/**
+ * Formats the cheapest registrar quote for a search result.
+ * @param cheapest - Cheapest quote for the domain's TLD
+ * @param years - Years of ownership the price covers
+ * @returns Registrar and price, or dash if no comparison was made
+ */
+function formatCheapest(
+	cheapest: RegistrarPricing | undefined,
+	years: number,
+): string {
+	if (!cheapest) return chalk.dim("-");
+	return `${formatPrice(getTotalCost(cheapest, years), cheapest.currency)} ${chalk.dim(cheapest.registrar)}`;
+}
+
+/**
+ * Formats a TLD's one-year registration price, noting promotions.
+ * @param pricing - TLD pricing
+ * @returns Price (green), followed by the regular price if a promotion applies
+ */
+function formatRegisterPrice(pricing: TldPricing): string {
+	const price = formatPrice(pricing.registerPrice, pricing.currency);
+	if (pricing.regularRegisterPrice === undefined) return price;
+	return `${price} ${chalk.yellow(`promo, usually ${formatMoney(pricing.regularRegisterPrice, pricing.currency)}`)}`;
+}
+
+/**
+ * Formats a domain name, adding the punycode form for IDNs.
+ * @param domain - Domain check or search result
+ * @returns Domain name (white if available, dim otherwise)
+ */
+function formatDomainName(
+	domain: DomainSearchResult | DomainCheckResult,
+): string {
+	const name = domain.unicode ?? domain.domain;
+	let text = domain.available ? chalk.white(name) : chalk.dim(name);
+	if (domain.punycode) text += ` ${chalk.dim(`(${domain.punycode})`)}`;
+	if ("hack" in domain && domain.hack) text += chalk.dim(` = ${domain.hack}`);
+	return text;
 }
 
 /**
  * Formats domain availability status with appropriate color.
+ * Verified results note a disputing second source or a missing one.
  * @param domain - Domain check or search result
- * @returns Colored status string (error/taken/premium/available)
+ * @returns Colored status string (unknown/registered/reserved/premium/available)
  */
 function formatAvailability(
 	domain: DomainSearchResult | DomainCheckResult,
 ): string {
-	if (domain.error) return chalk.red("error");
-	if (!domain.available) return chalk.dim("taken");
-	if (domain.isPremium) return chalk.yellow("premium");
-	return chalk.green("available");
+	switch (domain.status) {
+		case "available": {
+			const label = domain.isPremium
+				? chalk.yellow("premium")
+				: chalk.green("available");
+			if (domain.verification?.disagrees) {
+				return `${label} ${chalk.red(`(disputed: ${domain.verification.checker} says ${domain.verification.status})`)}`;
+			}
+			if (domain.confidence === "medium") {
+				return `${label} ${chalk.dim("(unverified)")}`;
+			}
+			return label;
+		}
+		case "registered":
+			return chalk.dim("registered");
+		case "reserved":
+			return chalk.magenta("reserved");
+		default:
+			return chalk.red("unknown");
+	}
 }
 
+/** Expiry within this many days is highlighted */
+const EXPIRY_WARNING_DAYS = 30;
+
+/** EPP status codes that mean a domain may drop soon */
+const DROPPING_EPP_STATUSES = ["redemptionPeriod", "pendingDelete"];
+
 /**
- * Prints domain search results as a formatted table.
+ * Formats an expiry date with days remaining, highlighting near expiry.
+ * @param expiresAt - ISO 8601 expiry date or undefined
+ * @returns Date with days left (yellow if soon, red if past) or dash if undefined
+ */
+function formatExpiry(expiresAt: string | undefined): string {
+	if (!expiresAt) return chalk.dim("-");
+	const date = new Date(expiresAt);
+	if (Number.isNaN(date.getTime())) return chalk.dim(expiresAt);
+
+	const days = Math.ceil((date.getTime() - Date.now()) / 86_400_000);
+	const text = `${date.toISOString().slice(0, 10)} (${days}d)`;
+	if (days < 0) return chalk.red(text);
+	if (days <= EXPIRY_WARNING_DAYS) return chalk.yellow(text);
+	return chalk.dim(text);
+}
+
+/**
+ * Formats EPP status codes, highlighting ones that precede a drop.
+ * @param codes - EPP status codes
+ * @returns Comma-separated codes or dash if empty
+ */
+function formatEppStatus(codes: string[]): string {
+	if (codes.length === 0) return chalk.dim("-");
+	return codes
+		.map((c) =>
+			DROPPING_EPP_STATUSES.includes(c) ? chalk.yellow(c) : chalk.dim(c),
+		)
+		.join(", ");
+}
+
+/**
+ * Formats a name score, colored by how good it is.
+ * @param score - Name score, if the result has one
+ * @returns Colored total out of 100, or a dim dash
+ */
+function formatScore(score: NameScore | undefined): string {
+	if (!score) return chalk.dim("-");
+	const text = score.total.toString();
+	if (score.total >= 75) return chalk.green(text);
+	if (score.total >= 50) return chalk.yellow(text);
+	return chalk.red(text);
+}
+
+/**
+ * Renders domain search results as a formatted table.
+ * A "Cheapest" column is added when results carry a registrar comparison,
+ * and a "Score" column when they carry name scores.
  * @param domains - Array of domain search results
+ * @param years - Ownership horizon; above 1, prices are total costs
+ * @returns Table as a multi-line string
  */
-function printSearchTable(domains: DomainSearchResult[]): void {
+function formatSearchTable(domains: DomainSearchResult[], years = 1): string {
+	const compared = domains.some((d) => d.cheapest);
+	const scored = domains.some((d) => d.score);
 	const table = new Table({
 		head: [
 			chalk.bold("Domain"),
 			chalk.bold("Status"),
-			chalk.bold("Price"),
+			chalk.bold(years > 1 ? `${years}-year cost` : "Price"),
+			...(compared ? [chalk.bold("Cheapest")] : []),
 			chalk.bold("Words"),
+			...(scored ? [chalk.bold("Score")] : []),
 		],
 		style: { head: [], border: [] },
 		chars: {
@@ -189,45 +832,594 @@ function printSearchTable(domains: DomainSearchResult[]): void {
 	});
 
 	for (const d of domains) {
-		const price = d.isPremium ? d.premiumPrice : d.registerPrice;
+		const price =
+			years > 1 ? d.totalCost : d.isPremium ? d.premiumPrice : d.registerPrice;
 		table.push([
-			d.available ? chalk.white(d.domain) : chalk.dim(d.domain),
+			formatDomainName(d),
 			formatAvailability(d),
-			formatPrice(price),
+			formatPrice(price, d.currency),
+			...(compared ? [formatCheapest(d.cheapest, years)] : []),
 			chalk.dim(d.wordCount.toString()),
+			...(scored ? [formatScore(d.score)] : []),
 		]);
 	}
 
-	console.log(table.toString());
+	return table.toString();
+}
+
+/** Terminal lines kept free around the live table (spinner line, borders, note) */
+const LIVE_TABLE_RESERVED_LINES = 6;
+
+/**
+ * Renders the best matches so far to show under the spinner while a search runs.
+ * Rows are capped to the terminal height so the spinner can redraw in place.
+ * @param domains - Matching results so far
+ * @param sortBy - Sort key from the CLI
+ * @param years - Ownership horizon shown in the price column
+ * @returns Table string, or empty string if nothing matched yet
+ */
+function formatLiveTable(
+	domains: DomainSearchResult[],
+	sortBy: SortOption,
+	years: number,
+): string {
+	if (domains.length === 0) return "";
+	const terminalRows = process.stdout.rows ?? 24;
+	// Each table row takes two lines including its separator
+	const maxRows = Math.max(
+		1,
+		Math.floor((terminalRows - LIVE_TABLE_RESERVED_LINES) / 2),
+	);
+	const shown = sortSearchResults([...domains], sortBy).slice(0, maxRows);
+	const hidden = domains.length - shown.length;
+	const table = formatSearchTable(shown, years);
+	return hidden > 0 ? `${table}\n${chalk.dim(`…and ${hidden} more`)}` : table;
 }
 
 /**
- * Prints a summary of search results (available, premium, errors).
+ * Prints a summary of search results (available, premium, unknown).
  * @param domains - Array of domain search results
  */
-function printSummary(domains: DomainSearchResult[]): void {
-	const available = domains.filter((d) => d.available && !d.error);
-	const premium = available.filter((d) => d.isPremium);
-	const regular = available.filter((d) => !d.isPremium);
-	const errors = domains.filter((d) => d.error);
+function printSummary(domains: DomainSearchResult[]): void {
+	const available = domains.filter((d) => d.status === "available");
+	const premium = available.filter((d) => d.isPremium);
+	const regular = available.filter((d) => !d.isPremium);
+	const unknown = domains.filter((d) => d.status === "unknown");
+	const errors = unknown.filter((d) => d.error);
+	const disputed = available.filter((d) => d.verification?.disagrees);
+
+	console.log();
+	console.log(
+		chalk.bold("Summary:"),
+		chalk.green(`${available.length} available`),
+		chalk.dim(`(${regular.length} regular, ${premium.length} premium)`),
+		disputed.length > 0 ? chalk.yellow(`${disputed.length} disputed`) : "",
+		unknown.length > 0 ? chalk.red(`${unknown.length} unknown`) : "",
+	);
+
+	if (errors.length > 0) {
+		const uniqueErrors = [...new Set(errors.map((e) => e.error))];
+		if (uniqueErrors.length === 1) {
+			console.log(chalk.red(`Error: ${uniqueErrors[0]}`));
+		} else {
+			for (const err of uniqueErrors.slice(0, 3)) {
+				console.log(chalk.red(`  - ${err}`));
+			}
+		}
+	}
+}
+
+/**
+ * Renders register and renew prices per TLD with one column per registrar.
+ * The cheapest registrar in each row is highlighted, by total cost over the horizon.
+ * @param prices - Prices from comparePricing
+ * @param registrars - Registrar names to show as columns, in order
+ * @param years - Ownership horizon; above 1, each cell adds the total cost
+ * @param cheapest - Cheapest quote per TLD, highlighted
+ * @returns Table as a multi-line string
+ */
+function formatComparisonTable(
+	prices: RegistrarPricing[],
+	registrars: string[],
+	years: number,
+	cheapest: Map<string, RegistrarPricing>,
+): string {
+	const table = new Table({
+		head: [chalk.bold("TLD"), ...registrars.map((r) => chalk.bold(r))],
+		style: { head: [], border: [] },
+	});
+
+	const tlds = [...new Set(prices.map((p) => p.tld))];
+	for (const tld of tlds) {
+		const bestRegistrar = cheapest.get(tld)?.registrar;
+		table.push([
+			chalk.white(`.${tld}`),
+			...registrars.map((registrar) => {
+				const p = prices.find(
+					(q) => q.tld === tld && q.registrar === registrar,
+				);
+				if (!p) return chalk.dim("-");
+				const best = p.registrar === bestRegistrar;
+				const register = formatMoney(p.registerPrice, p.currency);
+				const cell = `${best ? chalk.green.bold(register) : register} ${chalk.dim(`/ ${formatMoney(p.renewPrice, p.currency)}`)}`;
+				if (years === 1) return cell;
+				const total = formatMoney(getTotalCost(p, years), p.currency);
+				return `${cell} = ${best ? chalk.green.bold(total) : total}`;
+			}),
+		]);
+	}
+
+	return table.toString();
+}
+
+/**
+ * Runs `pricing --compare`: fetches prices from several registrars and prints them.
+ * @param tlds - TLDs from the command line (default: DEFAULT_COMPARE_TLDS)
+ * @param registrars - Registrars to ask (default: every configured one)
+ * @param isJson - Print JSON instead of a table
+ * @param years - Ownership horizon for picking the cheapest registrar
+ * @param rates - Exchange rates when converting to currency
+ * @param currency - Currency to show prices in (default: as quoted)
+ * @exits Process exits with code 1 if no registrar returned prices
+ */
+async function runPricingComparison(
+	tlds: string[],
+	registrars: string[] | undefined,
+	isJson: boolean,
+	years: number,
+	rates?: ExchangeRates,
+	currency?: string,
+): Promise<void> {
+	const spinner = isJson
+		? null
+		: ora({
+				text: "Comparing registrar prices...",
+				color: "cyan",
+			}).start();
+
+	const comparison = await comparePricing(
+		tlds.length > 0 ? tlds : DEFAULT_COMPARE_TLDS,
+		getRegistrarConfig(),
+		{ registrars },
+	);
+	const { errors } = comparison;
+	// The cheapest registrar is picked in USD before converting
+	let prices = comparison.prices;
+	let cheapest = findCheapest(prices, years);
+	if (rates && currency) {
+		const convert = (p: RegistrarPricing) => convertPricing(p, currency, rates);
+		prices = prices.map(convert);
+		cheapest = new Map([...cheapest].map(([tld, p]) => [tld, convert(p)]));
+	}
+
+	if (isJson) {
+		console.log(
+			JSON.stringify(
+				{
+					prices,
+					cheapest: Object.fromEntries(cheapest),
+					errors,
+				},
+				null,
+				2,
+			),
+		);
+	} else if (prices.length > 0) {
+		const quoted = new Set(prices.map((p) => p.registrar));
+		const columns = listRegistrars()
+			.map((a) => a.name)
+			.filter((name) => quoted.has(name));
+		spinner?.succeed(`Compared ${columns.length} registrars`);
+		console.log();
+		console.log(formatComparisonTable(prices, columns, years, cheapest));
+		console.log(
+			chalk.dim(
+				years > 1
+					? `Prices are register / renew for one year = total for ${years} years`
+					: "Prices are register / renew for one year",
+			),
+		);
+	} else {
+		spinner?.fail(chalk.red("No registrar returned prices"));
+	}
+
+	if (!isJson) {
+		for (const { registrar, error } of errors) {
+			console.log(chalk.yellow(`${registrar}: ${error}`));
+		}
+	}
+	if (prices.length === 0) process.exit(1);
+}
+
+/**
+ * Formats a portfolio as a table.
+ * @param domains - Owned domains
+ * @returns Table with expiry, auto-renew status and renewal cost
+ */
+function formatPortfolioTable(domains: OwnedDomain[]): string {
+	const table = new Table({
+		head: [
+			chalk.bold("Domain"),
+			chalk.bold("Expires"),
+			chalk.bold("Auto-renew"),
+			chalk.bold("Renewal"),
+		],
+		style: { head: [], border: [] },
+	});
+
+	for (const d of domains) {
+		const soon = daysUntilExpiry(d) <= EXPIRY_WARNING_DAYS;
+		table.push([
+			chalk.white(d.domain),
+			formatExpiry(d.expiresAt),
+			d.autoRenew
+				? chalk.green("on")
+				: soon
+					? chalk.red("off")
+					: chalk.dim("off"),
+			d.isPremium && d.renewPrice === undefined
+				? chalk.yellow("premium")
+				: formatPrice(d.renewPrice, d.currency),
+		]);
+	}
+
+	return table.toString();
+}
+
+/**
+ * Fetches the Namecheap portfolio and prints it.
+ * @param options - Expiry window (all domains if unset) and output format
+ * @exits Process exits with code 1 if the domain list cannot be fetched
+ */
+async function runPortfolio(options: {
+	withinMs?: number;
+	json: boolean;
+}): Promise<void> {
+	const config = requireNamecheapConfig("portfolio commands");
+	const spinner = options.json
+		? null
+		: ora({
+				text: "Fetching domains from Namecheap...",
+				color: "cyan",
+			}).start();
+
+	try {
+		const portfolio = await getPortfolio(config);
+		const domains =
+			options.withinMs === undefined
+				? portfolio
+				: filterExpiring(portfolio, options.withinMs);
+
+		if (options.json) {
+			console.log(
+				JSON.stringify(
+					domains.map((d) => ({ ...d, daysUntilExpiry: daysUntilExpiry(d) })),
+					null,
+					2,
+				),
+			);
+			return;
+		}
+
+		const days =
+			options.withinMs === undefined
+				? undefined
+				: Math.round(options.withinMs / 86_400_000);
+		spinner?.succeed(
+			days === undefined
+				? `${domains.length} domains in your Namecheap account`
+				: `${domains.length} of ${portfolio.length} domains expire within ${days} days`,
+		);
+		if (domains.length === 0) return;
+		console.log();
+		console.log(formatPortfolioTable(domains));
+
+		const manual = domains.filter((d) => !d.autoRenew && !d.isExpired);
+		if (days !== undefined) {
+			// Unknown prices (typically premium names) are left out, not counted as 0
+			const priced = domains.filter((d) => d.renewPrice !== undefined);
+			const total = priced.reduce((sum, d) => sum + (d.renewPrice ?? 0), 0);
+			const currency = priced.find((d) => d.currency)?.currency;
+			const unpriced = domains.length - priced.length;
+			console.log(
+				chalk.dim(
+					`Renewal cost: ${formatMoney(total, currency)}${unpriced > 0 ? ` (excludes ${unpriced} domain${unpriced === 1 ? "" : "s"} with an unknown renewal price)` : ""}`,
+				),
+			);
+		}
+		if (manual.length > 0) {
+			console.log(
+				chalk.yellow(
+					`${manual.length} with auto-renew off must be renewed by hand`,
+				),
+			);
+		}
+	} catch (error) {
+		printNamecheapError(error, config, options.json, spinner);
+		process.exit(1);
+	}
+}
+
+/**
+ * What registering a domain will cost, from a fresh availability check.
+ */
+interface RegistrationQuote {
+	/** Total charge for the registration period */
+	price: number;
+	/** Currency of the price */
+	currency: string;
+	/** Premium registration price, if the name is premium */
+	premiumPrice?: number;
+}
+
+/**
+ * Checks that a domain can be registered through Namecheap and prices it.
+ * @param config - Namecheap API configuration
+ * @param domain - Domain to register
+ * @param suffix - The domain's public suffix
+ * @param years - Registration period
+ * @returns Final price for the registration period
+ * @throws NamecheapApiError if Namecheap rejects the request
+ * @throws Error if the domain is not available, is premium without a quoted
+ * price, or cannot be priced
+ */
+async function quoteRegistration(
+	config: NamecheapConfig,
+	domain: string,
+	suffix: string,
+	years: number,
+): Promise<RegistrationQuote> {
+	const [check] = await checkDomainsNamecheap(config, [domain]);
+	if (!check || check.status === "unknown") {
+		throw new Error(
+			`Could not check ${domain}: ${check?.error ?? "no result from Namecheap"}`,
+		);
+	}
+	if (!check.available) {
+		throw new Error(`${domain} is not available`);
+	}
+
+	if (check.isPremium) {
+		// Registering at the standard price would not send the premium flag
+		if (check.premiumPrice === undefined) {
+			throw new Error(
+				`${domain} is premium but Namecheap did not quote its price`,
+			);
+		}
+		const price = getPremiumTotalCost(
+			check.premiumPrice,
+			check.premiumRenewPrice,
+			years,
+		);
+		if (price === undefined) {
+			throw new Error(
+				`${domain} is premium and its renewal price is unknown; register it for 1 year`,
+			);
+		}
+		return { price, currency: "USD", premiumPrice: check.premiumPrice };
+	}
+
+	const [pricing] = await getTldPricing(config, [suffix]);
+	if (!pricing) {
+		throw new Error(`Namecheap has no registration price for .${suffix}`);
+	}
+	// A multi-year create is charged at the up-front price for that duration
+	const upfront = pricing.matrix?.register.find((p) => p.years === years);
+	return {
+		price: upfront?.price ?? getTotalCost(pricing, years),
+		currency: pricing.currency,
+	};
+}
+
+/**
+ * Asks the user to confirm on the terminal.
+ * The prompt is written to stderr so JSON output stays clean.
+ * @param question - Question to show
+ * @returns True if the user answered yes
+ * @throws Error if stdin is not an interactive terminal
+ */
+async function confirm(question: string): Promise<boolean> {
+	if (!process.stdin.isTTY) {
+		throw new Error("Confirmation needs an interactive terminal");
+	}
+	const rl = createInterface({ input: process.stdin, output: process.stderr });
+	try {
+		const answer = await rl.question(`${question} ${chalk.dim("(yes/no)")} `);
+		return ["y", "yes"].includes(answer.trim().toLowerCase());
+	} finally {
+		rl.close();
+	}
+}
+
+/**
+ * Options shared by the check and hacks commands.
+ */
+interface CheckCommandOptions {
+	availableOnly?: boolean;
+	includeUnknown?: boolean;
+	checker?: CheckerPlan;
+	dnsPrefilter: boolean;
+	verify: boolean;
+	dnsServer?: string[];
+	cache: boolean;
+	refresh: boolean;
+	rdapRate?: number;
+	whoisRate?: number;
+	deadline?: number;
+	json: boolean;
+	ndjson: boolean;
+}
+
+/**
+ * Adds the lookup and output options of the check command to a command.
+ * @param command - Command to extend
+ * @returns The same command
+ */
+function addCheckOptions(command: Command): Command {
+	return command
+		.option("--available-only", "Only show available domains")
+		.option(
+			"--include-unknown",
+			"With --available-only, keep domains whose lookup failed",
+		)
+		.option("--checker <spec>", CHECKER_HELP, parseChecker)
+		.option(
+			"--dns-prefilter",
+			"Mark names with DNS delegations registered before registry lookups",
+			false,
+		)
+		.option(
+			"--verify",
+			"Re-check available domains with an independent source",
+			false,
+		)
+		.option(
+			"--dns-server <addresses>",
+			"Comma-separated DNS resolvers for DNS checks (default: system resolver)",
+			parseDnsServers,
+		)
+		.option("--no-cache", "Do not read or write the on-disk cache")
+		.option("--refresh", "Ignore cached results but store fresh ones", false)
+		.option(
+			"--rdap-rate <n>",
+			"RDAP requests per second per server",
+			(v: string) => parsePositiveFloat(v, "rdap-rate"),
+		)
+		.option(
+			"--whois-rate <n>",
+			"WHOIS queries per second per server",
+			(v: string) => parsePositiveFloat(v, "whois-rate"),
+		)
+		.option(
+			"--deadline <duration>",
+			"Stop lookups after this long and report the rest as unknown (e.g., 30s)",
+			(v: string) => parseDuration(v, "deadline"),
+		)
+		.option("--json", "Output as JSON", false)
+		.option(
+			"--ndjson",
+			"Stream newline-delimited JSON events as results arrive",
+			false,
+		);
+}
+
+/**
+ * Checks domains and prints the results, for the check and hacks commands.
+ * @param domains - Domains to check
+ * @param options - Parsed check command options
+ * @param hacks - Word each domain spells, for domain hacks
+ */
+async function runCheck(
+	domains: string[],
+	options: CheckCommandOptions,
+	hacks?: Map<string, string>,
+): Promise<void> {
+	const isJson = options.json || options.ndjson;
 
-	console.log();
-	console.log(
-		chalk.bold("Summary:"),
-		chalk.green(`${available.length} available`),
-		chalk.dim(`(${regular.length} regular, ${premium.length} premium)`),
-		errors.length > 0 ? chalk.red(`${errors.length} errors`) : "",
-	);
+	const spinner = isJson
+		? null
+		: ora({
+				text: `Checking ${domains.length} domains...`,
+				color: "cyan",
+			}).start();
 
-	if (errors.length > 0) {
-		const uniqueErrors = [...new Set(errors.map((e) => e.error))];
-		if (uniqueErrors.length === 1) {
-			console.log(chalk.red(`Error: ${uniqueErrors[0]}`));
+	try {
+		const signal = interruptSignal(() => {
+			if (spinner) spinner.text = STOPPING_TEXT;
+		});
+		const checks = checkDomainsStream(domains, getCheckerPlan(options), {
+			namecheapConfig: getNamecheapConfig(),
+			dnsServers: options.dnsServer,
+			cache: getCacheOptions(options),
+			rateLimits: getRateLimits(options),
+			signal,
+			deadline: options.deadline,
+		});
+		// Domain hacks carry the word they spell, as in search results
+		const withHack = (r: DomainCheckResult) => {
+			const hack = hacks?.get(r.domain);
+			return hack ? { ...r, hack } : r;
+		};
+		const isShown = (r: DomainCheckResult) =>
+			!options.availableOnly ||
+			r.status === "available" ||
+			(options.includeUnknown === true && r.status === "unknown");
+
+		const resultMap = new Map<string, DomainCheckResult>();
+		const total = new Set(domains).size;
+		for await (const r of checks) {
+			resultMap.set(r.domain, r);
+			if (options.ndjson) {
+				console.log(
+					JSON.stringify({
+						type: "result",
+						domain: withHack(r),
+						matches: isShown(r),
+						completed: resultMap.size,
+						total,
+					}),
+				);
+			}
+			if (spinner && !signal.aborted) {
+				spinner.text = `Checking domains (${resultMap.size}/${total})...`;
+			}
+		}
+		const results = [...new Set(domains)]
+			.map((d) => resultMap.get(d))
+			.filter((r): r is DomainCheckResult => r !== undefined && isShown(r))
+			.map(withHack);
+
+		if (options.ndjson) {
+			console.log(JSON.stringify({ type: "done", domains: results }));
+		} else if (isJson) {
+			console.log(JSON.stringify(results, null, 2));
 		} else {
-			for (const err of uniqueErrors.slice(0, 3)) {
-				console.log(chalk.red(`  - ${err}`));
+			spinner?.succeed(`Checked ${domains.length} domains`);
+			console.log();
+
+			const showExpiry = results.some((r) => r.details?.expiresAt);
+			const table = new Table({
+				head: [
+					chalk.bold("Domain"),
+					chalk.bold("Status"),
+					chalk.bold("Via"),
+					...(showExpiry ? [chalk.bold("Expires")] : []),
+				],
+				style: { head: [], border: [] },
+			});
+
+			for (const r of results) {
+				let status = formatAvailability(r);
+				if (r.status === "unknown" && r.error) {
+					status = chalk.red(`unknown: ${r.error}`);
+				} else if (r.available && r.isPremium && r.premiumPrice) {
+					status = chalk.yellow(`premium ${formatMoney(r.premiumPrice)}`);
+				}
+				table.push([
+					formatDomainName(r),
+					status,
+					chalk.dim(
+						r.cached ? `${r.checkedBy ?? "-"} (cached)` : (r.checkedBy ?? "-"),
+					),
+					...(showExpiry ? [formatExpiry(r.details?.expiresAt)] : []),
+				]);
 			}
+
+			console.log(table.toString());
+		}
+	} catch (error) {
+		if (isJson) {
+			console.error(
+				JSON.stringify({
+					error: error instanceof Error ? error.message : "Unknown error",
+				}),
+			);
+		} else {
+			spinner?.fail(
+				chalk.red(error instanceof Error ? error.message : "Unknown error"),
+			);
 		}
+		process.exit(1);
 	}
 }
 
@@ -267,7 +1459,63 @@ program
 		parseCreativity,
 		0.9,
 	)
+	.option(
+		"--language <lang>",
+		"Generate names in a language or script (e.g., German, Japanese)",
+	)
+	.option(
+		"--generator <name>",
+		"Where names come from: llm, rules (offline, from seed words) or both",
+		parseGenerator,
+		"llm",
+	)
+	.option(
+		"--seed-words <words>",
+		"Comma-separated words for the rules generator (default: words of the concept)",
+		(v) =>
+			v
+				.split(",")
+				.map((w) => w.trim())
+				.filter(Boolean),
+	)
+	.option(
+		"--seed <n>",
+		"Seed for the rules generator, for reproducible names",
+		parseSeed,
+	)
+	.option(
+		"--provider <name>",
+		`LLM provider: ${LLM_PROVIDERS.join(", ")} (default: first with an API key)`,
+		parseProvider,
+	)
+	.option("--model <id>", "Model ID (default: the provider's default model)")
+	.option(
+		"--base-url <url>",
+		"API endpoint, e.g. a local OpenAI-compatible server",
+		parseBaseUrl,
+	)
 	.option("--available-only", "Only show available domains", false)
+	.option(
+		"--target-available <n>",
+		"Generate more rounds of names until n available domains are found (implies --available-only)",
+		(v) => parsePositiveInt(v, "target-available"),
+	)
+	.option(
+		"--max-rounds <n>",
+		"Most generation rounds with --target-available",
+		(v) => parsePositiveInt(v, "max-rounds"),
+		5,
+	)
+	.option(
+		"--max-lookups <n>",
+		"Most domains to look up across all rounds",
+		(v) => parsePositiveInt(v, "max-lookups"),
+	)
+	.option(
+		"--include-unknown",
+		"With --available-only, keep domains whose lookup failed",
+		false,
+	)
 	.option("--no-premium", "Exclude premium domains")
 	.option("--max-price <n>", "Maximum price filter", (v) =>
 		parseNonNegativeFloat(v, "max-price"),
@@ -277,16 +1525,85 @@ program
 	)
 	.option(
 		"--sort <by>",
-		"Sort results: price, name, or length",
+		"Sort results: price, name, length, or score",
 		parseSort,
 		"price",
 	)
+	.option(
+		"--min-score <n>",
+		"Minimum name quality score (0-100)",
+		parseMinScore,
+	)
+	.option(
+		"--years <n>",
+		"Compare prices as the total cost of owning a name this many years",
+		parseYears,
+		1,
+	)
+	.option(
+		"--compare",
+		"Compare TLD prices across registrars and show the cheapest",
+		false,
+	)
+	.option(
+		"--hacks",
+		"Also check domain hacks, where a TLD completes the name (e.g., delicio.us)",
+		false,
+	)
+	.option(
+		"--currency <code>",
+		"Show prices (and --max-price) in this currency",
+		parseCurrency,
+	)
+	.option(
+		"--rates <file>",
+		"JSON exchange rate table for --currency (default: cached ECB rates)",
+	)
+	.option("--checker <spec>", CHECKER_HELP, parseChecker)
+	.option(
+		"--dns-prefilter",
+		"Mark names with DNS delegations registered before registry lookups",
+		false,
+	)
+	.option(
+		"--verify",
+		"Re-check available domains with an independent source",
+		false,
+	)
+	.option(
+		"--dns-server <addresses>",
+		"Comma-separated DNS resolvers for DNS checks (default: system resolver)",
+		parseDnsServers,
+	)
+	.option("--no-cache", "Do not read or write the on-disk cache")
+	.option("--refresh", "Ignore cached results but store fresh ones", false)
+	.option(
+		"--pricing-ttl <duration>",
+		"How long cached price lists stay fresh (default: 24h)",
+		(v) => parseDuration(v, "pricing-ttl"),
+	)
+	.option("--rdap-rate <n>", "RDAP requests per second per server", (v) =>
+		parsePositiveFloat(v, "rdap-rate"),
+	)
+	.option("--whois-rate <n>", "WHOIS queries per second per server", (v) =>
+		parsePositiveFloat(v, "whois-rate"),
+	)
+	.option(
+		"--deadline <duration>",
+		"Stop lookups after this long and report the rest as unknown (e.g., 30s)",
+		(v) => parseDuration(v, "deadline"),
+	)
 	.option("--json", "Output as JSON", false)
+	.option(
+		"--ndjson",
+		"Stream newline-delimited JSON events as results arrive",
+		false,
+	)
 	.option("--reasoning", "Show LLM reasoning", true)
 	.option("--no-reasoning", "Hide LLM reasoning")
 	.action(async (concept: string, options) => {
 		const namecheapConfig = getNamecheapConfig();
-		const isJson = options.json;
+		const isJson = options.json || options.ndjson;
 
 		const spinner = isJson
 			? null
@@ -295,8 +1612,19 @@ program
 					color: "cyan",
 				}).start();
 
+		const signal = interruptSignal(() => {
+			if (spinner) spinner.text = STOPPING_TEXT;
+		});
+
 		try {
-			const result = await searchDomains(
+			// The rules generator works offline, without any provider configured
+			const llm =
+				options.generator === "rules" ? undefined : await getLlmConfig(options);
+			if (spinner && llm) {
+				spinner.text = `Generating domain ideas with ${llm.provider}/${llm.model}...`;
+			}
+			const exchangeRates = await loadExchangeRates(options);
+			const events = searchDomainsStream(
 				concept,
 				{
 					tlds: options.tlds,
@@ -305,21 +1633,81 @@ program
 					allowHyphens: options.hyphens,
 					allowAbbreviations: options.abbreviations,
 					creativity: options.creativity,
-					availableOnly: options.availableOnly,
+					language: options.language,
+					llm,
+					generator: options.generator,
+					seedWords: options.seedWords,
+					seed: options.seed,
+					availableOnly: options.availableOnly || !!options.targetAvailable,
+					targetAvailable: options.targetAvailable,
+					maxRounds: options.maxRounds,
+					maxLookups: options.maxLookups,
+					includeUnknown: options.includeUnknown,
 					excludePremium: !options.premium,
 					maxPrice: options.maxPrice,
 					maxLength: options.maxLength,
+					minScore: options.minScore,
 					sortBy: options.sort,
+					years: options.years,
+					checkers: getCheckerPlan(options),
+					dnsServers: options.dnsServer,
+					cache: getCacheOptions(options),
+					rateLimits: getRateLimits(options),
+					signal,
+					deadline: options.deadline,
+					registrars: options.compare ? getRegistrarConfig() : undefined,
+					domainHacks: options.hacks,
+					currency: exchangeRates ? options.currency : undefined,
+					exchangeRates,
 				},
 				namecheapConfig,
 			);
 
-			if (isJson) {
+			const matches: DomainSearchResult[] = [];
+			let result: SearchResult | undefined;
+			for await (const event of events) {
+				if (event.type === "done") {
+					result = event.result;
+					break;
+				}
+
+				if (options.ndjson) {
+					console.log(JSON.stringify(event));
+				}
+				if (!spinner?.isSpinning || signal.aborted) continue;
+
+				if (event.type === "ideas") {
+					const round = options.targetAvailable ? `Round ${event.round}: ` : "";
+					spinner.text = `${round}Checking ${event.total} domains...`;
+				} else if (event.type === "result") {
+					if (event.matches) matches.push(event.domain);
+					const found = matches.filter((d) => d.status === "available").length;
+					const progress = options.targetAvailable
+						? `Checking domains (${event.completed}/${event.total}, ${found}/${options.targetAvailable} available)...`
+						: `Checking domains (${event.completed}/${event.total})...`;
+					const table = formatLiveTable(matches, options.sort, options.years);
+					spinner.text = table ? `${progress}\n${table}` : progress;
+				}
+			}
+			if (!result) throw new Error("Search ended without a result");
+
+			if (options.ndjson) {
+				console.log(
+					JSON.stringify({
+						type: "done",
+						concept,
+						reasoning: result.reasoning,
+						rounds: result.rounds,
+						domains: result.domains,
+					}),
+				);
+			} else if (isJson) {
 				console.log(
 					JSON.stringify(
 						{
 							concept,
 							reasoning: result.reasoning,
+							rounds: result.rounds,
 							domains: result.domains,
 						},
 						null,
@@ -327,15 +1715,29 @@ program
 					),
 				);
 			} else {
-				spinner?.succeed(
-					`Generated ${result.domains.length} domain suggestions`,
-				);
+				if (options.targetAvailable) {
+					const found = result.domains.filter(
+						(d) => d.status === "available",
+					).length;
+					const rounds = `${result.rounds} round${result.rounds === 1 ? "" : "s"}`;
+					if (found >= options.targetAvailable) {
+						spinner?.succeed(`Found ${found} available domains in ${rounds}`);
+					} else {
+						spinner?.warn(
+							`Found ${found} of ${options.targetAvailable} available domains in ${rounds}`,
+						);
+					}
+				} else {
+					spinner?.succeed(
+						`Generated ${result.domains.length} domain suggestions`,
+					);
+				}
 				console.log();
 				if (options.reasoning) {
 					console.log(chalk.dim(result.reasoning));
 					console.log();
 				}
-				printSearchTable(result.domains);
+				console.log(formatSearchTable(result.domains, options.years));
 				printSummary(result.domains);
 
 				if (!namecheapConfig) {
@@ -363,61 +1765,95 @@ program
 		}
 	});
 
+addCheckOptions(
+	program
+		.command("check")
+		.description("Check availability of specific domain names")
+		.argument("<domains...>", "Domain names to check (e.g., example.com)"),
+).action(async (domains: string[], options: CheckCommandOptions) => {
+	await runCheck(domains, options);
+});
+
+addCheckOptions(
+	program
+		.command("hacks")
+		.description(
+			"Find and check domain hacks where the TLD completes a word (e.g., delicio.us)",
+		)
+		.argument("<words...>", "Words to spell (e.g., delicious recipes)"),
+).action(async (words: string[], options: CheckCommandOptions) => {
+	const found = await findDomainHacksForWords(words, {
+		cache: getCacheOptions(options),
+	});
+	if (found.length === 0) {
+		if (options.json || options.ndjson) {
+			console.log(
+				options.ndjson ? JSON.stringify({ type: "done", domains: [] }) : "[]",
+			);
+		} else {
+			console.log(chalk.yellow(`No TLD completes ${words.join(", ")}`));
+		}
+		return;
+	}
+	await runCheck(
+		found.map((h) => h.domain),
+		options,
+		new Map(found.map((h) => [h.domain, h.word])),
+	);
+});
+
 program
-	.command("check")
-	.description("Check availability of specific domain names")
-	.argument("<domains...>", "Domain names to check (e.g., example.com)")
-	.option("--available-only", "Only show available domains")
+	.command("info")
+	.description("Show RDAP registration details for a domain")
+	.argument("<domain>", "Domain name to look up (e.g., example.com)")
+	.option("--no-cache", "Do not read or write the on-disk cache")
+	.option("--refresh", "Ignore cached data but store fresh data", false)
 	.option("--json", "Output as JSON", false)
-	.action(async (domains: string[], options) => {
+	.action(async (domain: string, options) => {
 		const isJson = options.json;
 
 		const spinner = isJson
 			? null
 			: ora({
-					text: `Checking ${domains.length} domains...`,
+					text: `Looking up ${domain}...`,
 					color: "cyan",
 				}).start();
 
 		try {
-			let results = await checkDomains(domains);
-
-			if (options.availableOnly) {
-				results = results.filter((r) => r.available);
+			const result = await getDomainInfo(domain, {
+				cache: getCacheOptions(options),
+			});
+			if (result.status === "unknown") {
+				throw new Error(result.error ?? "RDAP lookup failed");
 			}
 
 			if (isJson) {
-				console.log(JSON.stringify(results, null, 2));
-			} else {
-				spinner?.succeed(`Checked ${domains.length} domains`);
-				console.log();
+				console.log(JSON.stringify(result, null, 2));
+				return;
+			}
 
-				const table = new Table({
-					head: [chalk.bold("Domain"), chalk.bold("Status")],
-					style: { head: [], border: [] },
-				});
+			const label = result.punycode
+				? `${result.unicode} (${result.punycode})`
+				: domain;
+			spinner?.succeed(`${label} is ${result.status}`);
+			const details = result.details;
+			if (!details) return;
+			console.log();
 
-				for (const r of results) {
-					let status: string;
-					if (r.error) {
-						status = chalk.red(`error: ${r.error}`);
-					} else if (!r.available) {
-						status = chalk.dim("taken");
-					} else if (r.isPremium) {
-						status = chalk.yellow(
-							`premium ${r.premiumPrice ? `$${r.premiumPrice}` : ""}`,
-						);
-					} else {
-						status = chalk.green("available");
-					}
-					table.push([
-						r.available ? chalk.white(r.domain) : chalk.dim(r.domain),
-						status,
-					]);
-				}
+			const table = new Table({ style: { head: [], border: [] } });
+			table.push(
+				[chalk.bold("Registrar"), details.registrar ?? chalk.dim("-")],
+				[chalk.bold("Created"), details.createdAt ?? chalk.dim("-")],
+				[chalk.bold("Updated"), details.updatedAt ?? chalk.dim("-")],
+				[chalk.bold("Expires"), formatExpiry(details.expiresAt)],
+				[chalk.bold("Status"), formatEppStatus(details.eppStatus)],
+				[
+					chalk.bold("Nameservers"),
+					details.nameservers.join("\n") || chalk.dim("-"),
+				],
+			);
 
-				console.log(table.toString());
-			}
+			console.log(table.toString());
 		} catch (error) {
 			if (isJson) {
 				console.error(
@@ -436,11 +1872,62 @@ program
 
 program
 	.command("pricing")
-	.description("Get TLD pricing information (requires Namecheap credentials)")
+	.description(
+		"Get TLD pricing information (Namecheap, or several registrars with --compare)",
+	)
 	.argument("[tlds...]", "Specific TLDs to check (e.g., com io dev)")
+	.option(
+		"--compare",
+		"Compare register and renew prices across registrars",
+		false,
+	)
+	.option(
+		"--registrar <names>",
+		"Comma-separated registrars to compare (implies --compare)",
+		parseRegistrars,
+	)
+	.option(
+		"--years <n>",
+		"Add the total cost of owning a name this many years",
+		parseYears,
+	)
+	.option("--currency <code>", "Show prices in this currency", parseCurrency)
+	.option(
+		"--rates <file>",
+		"JSON exchange rate table for --currency (default: cached ECB rates)",
+	)
+	.option("--no-cache", "Do not read or write the on-disk cache")
+	.option("--refresh", "Fetch fresh prices and update the cache", false)
+	.option(
+		"--pricing-ttl <duration>",
+		"How long cached price lists stay fresh (default: 24h)",
+		(v) => parseDuration(v, "pricing-ttl"),
+	)
 	.option("--json", "Output as JSON", false)
 	.action(async (tlds: string[], options) => {
-		const config = requireNamecheapConfig();
+		const years: number = options.years ?? 1;
+		if (options.compare || options.registrar) {
+			let rates: ExchangeRates | undefined;
+			try {
+				rates = await loadExchangeRates(options);
+			} catch (error) {
+				console.error(
+					chalk.red(error instanceof Error ? error.message : "Unknown error"),
+				);
+				process.exit(1);
+			}
+			await runPricingComparison(
+				tlds,
+				options.registrar,
+				options.json,
+				years,
+				rates,
+				options.currency,
+			);
+			return;
+		}
+
+		const config = requireNamecheapConfig("pricing");
 		const isJson = options.json;
 
 		const spinner = isJson
@@ -451,13 +1938,29 @@ program
 				}).start();
 
 		try {
-			const results = await getTldPricing(
-				config,
-				tlds.length > 0 ? tlds : undefined,
-			);
+			const rates = await loadExchangeRates(options);
+			const results = (
+				await getTldPricing(
+					config,
+					tlds.length > 0 ? tlds : undefined,
+					undefined,
+					getCacheOptions(options),
+				)
+			).map((p) => (rates ? convertPricing(p, options.currency, rates) : p));
+			if (options.years) {
+				// Cheap first years can hide expensive renewals
+				results.sort((a, b) => getTotalCost(a, years) - getTotalCost(b, years));
+			}
 
 			if (isJson) {
-				console.log(JSON.stringify(results, null, 2));
+				const output = options.years
+					? results.map((p) => ({
+							...p,
+							years,
+							totalCost: getTotalCost(p, years),
+						}))
+					: results;
+				console.log(JSON.stringify(output, null, 2));
 			} else {
 				spinner?.succeed(`Found pricing for ${results.length} TLDs`);
 				console.log();
@@ -467,6 +1970,8 @@ program
 						chalk.bold("TLD"),
 						chalk.bold("Register"),
 						chalk.bold("Renew"),
+						chalk.bold("Transfer"),
+						...(options.years ? [chalk.bold(`${years}-year cost`)] : []),
 					],
 					style: { head: [], border: [] },
 				});
@@ -474,27 +1979,335 @@ program
 				for (const p of results) {
 					table.push([
 						chalk.white(`.${p.tld}`),
-						chalk.green(`$${p.registerPrice.toFixed(2)}`),
-						chalk.dim(`$${p.renewPrice.toFixed(2)}`),
+						formatRegisterPrice(p),
+						chalk.dim(formatMoney(p.renewPrice, p.currency)),
+						p.transferPrice === undefined
+							? chalk.dim("-")
+							: chalk.dim(formatMoney(p.transferPrice, p.currency)),
+						...(options.years
+							? [chalk.bold(formatMoney(getTotalCost(p, years), p.currency))]
+							: []),
 					]);
 				}
 
 				console.log(table.toString());
 			}
 		} catch (error) {
-			if (isJson) {
-				console.error(
-					JSON.stringify({
-						error: error instanceof Error ? error.message : "Unknown error",
-					}),
+			printNamecheapError(error, config, isJson, spinner);
+			process.exit(1);
+		}
+	});
+
+program
+	.command("register")
+	.description("Register an available domain through Namecheap")
+	.argument("<domain>", "Domain name to register (e.g., example.com)")
+	.option(
+		"--years <n>",
+		"Registration period in years (default: 1)",
+		parseYears,
+	)
+	.option(
+		"--profile <name>",
+		`Config profile with contact details (from ${getConfigPath()})`,
+		DEFAULT_PROFILE,
+	)
+	.option(
+		"--dry-run",
+		"Check availability and price without registering",
+		false,
+	)
+	.option("--json", "Output as JSON", false)
+	.action(async (domain: string, options) => {
+		const config = requireNamecheapConfig("registration");
+		const isJson = options.json;
+		const years: number = options.years ?? 1;
+		const mode = config.sandbox ? "Namecheap sandbox" : "Namecheap";
+
+		let spinner = isJson
+			? null
+			: ora({
+					text: `Checking ${domain}...`,
+					color: "cyan",
+				}).start();
+
+		try {
+			const parsed = isValidDomain(domain)
+				? parseDomain(toAscii(domain))
+				: undefined;
+			if (!parsed || parsed.domain !== toAscii(domain)) {
+				throw new Error(`"${domain}" is not a registrable domain name`);
+			}
+			const profile = await loadProfile(options.profile);
+			const quote = await quoteRegistration(
+				config,
+				domain,
+				parsed.suffix,
+				years,
+			);
+			const price = formatMoney(quote.price, quote.currency);
+
+			if (isJson && options.dryRun) {
+				console.log(
+					JSON.stringify(
+						{
+							domain,
+							years,
+							...quote,
+							sandbox: !!config.sandbox,
+							dryRun: true,
+						},
+						null,
+						2,
+					),
+				);
+				return;
+			}
+
+			spinner?.succeed(`${domain} is available`);
+			if (!isJson) {
+				console.log();
+				const table = new Table({ style: { head: [], border: [] } });
+				table.push(
+					[chalk.bold("Domain"), chalk.white(domain)],
+					[chalk.bold("Years"), years.toString()],
+					[
+						chalk.bold("Price"),
+						quote.premiumPrice === undefined
+							? chalk.green(price)
+							: chalk.yellow(`${price} (premium)`),
+					],
+					[
+						chalk.bold("Registrant"),
+						`${profile.contact.firstName} ${profile.contact.lastName} <${profile.contact.email}>`,
+					],
+					[chalk.bold("Via"), mode],
+				);
+				console.log(table.toString());
+			}
+
+			if (options.dryRun) {
+				console.log(chalk.dim(`Dry run: ${domain} was not registered`));
+				return;
+			}
+
+			const confirmed = await confirm(
+				`Register ${domain} for ${years} year${years === 1 ? "" : "s"} at ${price} via ${mode}?`,
+			);
+			if (!confirmed) {
+				console.error(chalk.yellow("Registration cancelled"));
+				process.exit(1);
+			}
+
+			// Availability and price can change while the prompt is open
+			spinner = isJson
+				? null
+				: ora({ text: `Registering ${domain}...`, color: "cyan" }).start();
+			const current = await quoteRegistration(
+				config,
+				domain,
+				parsed.suffix,
+				years,
+			);
+			if (current.price !== quote.price) {
+				throw new Error(
+					`Price changed from ${price} to ${formatMoney(current.price, current.currency)}; run the command again`,
 				);
+			}
+
+			const result = await registerDomain(config, domain, {
+				years,
+				contact: profile.contact,
+				nameservers: profile.nameservers,
+				privacy: profile.privacy,
+				premiumPrice: current.premiumPrice,
+			});
+
+			if (isJson) {
+				console.log(JSON.stringify(result, null, 2));
 			} else {
-				spinner?.fail(
-					chalk.red(error instanceof Error ? error.message : "Unknown error"),
+				spinner?.succeed(
+					`Registered ${domain} for ${formatMoney(result.chargedAmount, quote.currency)}${result.orderId ? ` (order ${result.orderId})` : ""}`,
 				);
 			}
+		} catch (error) {
+			printNamecheapError(error, config, isJson, spinner);
+			process.exit(1);
+		}
+	});
+
+const portfolioCommand = program
+	.command("portfolio")
+	.description("Show domains in your Namecheap account");
+
+portfolioCommand
+	.command("list")
+	.description("List owned domains with expiry, auto-renew and renewal cost")
+	.option("--json", "Output as JSON", false)
+	.action(async (options) => {
+		await runPortfolio({ json: options.json });
+	});
+
+portfolioCommand
+	.command("expiring")
+	.description("List owned domains that expire soon")
+	.option(
+		"--within <duration>",
+		`Expiry window (default: ${EXPIRY_WARNING_DAYS}d)`,
+		(v) => parseDuration(v, "within"),
+	)
+	.option("--json", "Output as JSON", false)
+	.action(async (options) => {
+		await runPortfolio({
+			withinMs: options.within ?? EXPIRY_WARNING_DAYS * 86_400_000,
+			json: options.json,
+		});
+	});
+
+program
+	.command("models")
+	.description("Show LLM providers and the model search would use")
+	.option("--provider <name>", "Provider to resolve", parseProvider)
+	.option("--model <id>", "Model ID to resolve")
+	.option("--base-url <url>", "API endpoint to resolve", parseBaseUrl)
+	.option("--json", "Output as JSON", false)
+	.action(async (options) => {
+		const providers = listLlmProviders();
+		let selected: ResolvedLlmConfig | undefined;
+		let error: string | undefined;
+		try {
+			selected = await getLlmConfig(options);
+		} catch (e) {
+			error = e instanceof Error ? e.message : "Unknown error";
+		}
+
+		if (options.json) {
+			// Never print API keys
+			const { apiKey: _, ...selection } = selected ?? {};
+			console.log(
+				JSON.stringify(
+					{
+						selected: selected ? selection : null,
+						error,
+						configPath: getConfigPath(),
+						providers,
+					},
+					null,
+					2,
+				),
+			);
+			if (error) process.exit(1);
+			return;
+		}
+
+		const table = new Table({
+			head: [
+				chalk.bold("Provider"),
+				chalk.bold("Default model"),
+				chalk.bold("API key"),
+				chalk.bold("Endpoint"),
+			],
+			style: { head: [], border: [] },
+		});
+
+		for (const p of providers) {
+			const isSelected = p.provider === selected?.provider;
+			table.push([
+				isSelected ? chalk.green(`${p.provider} *`) : chalk.white(p.provider),
+				p.defaultModel ?? chalk.dim("(set --model)"),
+				p.hasApiKey
+					? chalk.green(`${p.apiKeyEnv} set`)
+					: chalk.dim(`${p.apiKeyEnv} not set`),
+				chalk.dim(
+					p.defaultBaseUrl ??
+						(p.provider === "openai-compatible" ? "(set --base-url)" : "-"),
+				),
+			]);
+		}
+
+		console.log(table.toString());
+		console.log();
+		if (selected) {
+			console.log(
+				`Using: ${chalk.green(`${selected.provider}/${selected.model}`)}${selected.baseUrl ? chalk.dim(` at ${selected.baseUrl}`) : ""}`,
+			);
+		} else {
+			console.log(chalk.red(`No usable model: ${error}`));
+		}
+		console.log(
+			chalk.dim(
+				`Set defaults with DOMAIN_MUSE_PROVIDER, DOMAIN_MUSE_MODEL, DOMAIN_MUSE_BASE_URL or "llm" in ${getConfigPath()}`,
+			),
+		);
+		if (error) process.exit(1);
+	});
+
+const cacheCommand = program
+	.command("cache")
+	.description("Manage the on-disk lookup cache");
+
+cacheCommand
+	.command("stats")
+	.description("Show cache location and entry counts")
+	.option("--json", "Output as JSON", false)
+	.action(async (options) => {
+		const stats = await getCacheStats();
+
+		if (options.json) {
+			console.log(
+				JSON.stringify(
+					{ directory: getCacheDir(), namespaces: stats },
+					null,
+					2,
+				),
+			);
+			return;
+		}
+
+		console.log(chalk.dim(getCacheDir()));
+		if (stats.length === 0) {
+			console.log("Cache is empty");
+			return;
+		}
+
+		const table = new Table({
+			head: [
+				chalk.bold("Namespace"),
+				chalk.bold("Entries"),
+				chalk.bold("Expired"),
+				chalk.bold("Size"),
+			],
+			style: { head: [], border: [] },
+		});
+
+		for (const s of stats) {
+			table.push([
+				chalk.white(s.namespace),
+				s.entries.toString(),
+				chalk.dim(s.expired.toString()),
+				chalk.dim(`${(s.bytes / 1024).toFixed(1)} KB`),
+			]);
+		}
+
+		console.log(table.toString());
+	});
+
+cacheCommand
+	.command("clear")
+	.description("Delete cached data")
+	.argument("[namespace]", "Only clear this namespace (e.g., availability)")
+	.action(async (namespace: string | undefined) => {
+		try {
+			await clearCache(namespace);
+		} catch (error) {
+			console.error(
+				chalk.red(error instanceof Error ? error.message : "Unknown error"),
+			);
 			process.exit(1);
 		}
+		console.log(
+			chalk.green(namespace ? `Cleared ${namespace} cache` : "Cleared cache"),
+		);
 	});
 
 program.parse();
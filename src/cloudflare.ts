@@ -0,0 +1,93 @@
+import type { CloudflareConfig, TldPricing } from "./types.js";
+import { priceProbeDomain, requestSignal } from "./util.js";
+
+const DEFAULT_BASE_URL = "https://api.cloudflare.com/client/v4";
+
+/**
+ * At-cost price quote for one domain.
+ */
+interface CloudflarePricing {
+	currency: string;
+	registration_cost: number;
+	renewal_cost: number;
+	transfer_cost?: number;
+}
+
+/**
+ * One domain in a Registrar domain check result.
+ */
+interface CloudflareDomainCheck {
+	name: string;
+	available: boolean;
+	pricing?: CloudflarePricing;
+}
+
+/**
+ * Cloudflare API v4 response envelope.
+ */
+interface CloudflareResponse<T> {
+	success: boolean;
+	errors?: Array<{ code: number; message: string }>;
+	result?: T;
+}
+
+/**
+ * Gets TLD pricing from the Cloudflare Registrar API.
+ * Cloudflare quotes at-cost prices per domain, so one probe name per TLD is
+ * checked in a single request. TLDs Cloudflare does not sell are left out.
+ * @param config - Cloudflare API credentials
+ * @param tlds - TLDs to price
+ * @param signal - Optional signal that cancels the request
+ * @returns Array of TLD pricing sorted by registration price
+ * @throws Error on HTTP or API errors
+ */
+export async function getTldPricing(
+	config: CloudflareConfig,
+	tlds: string[],
+	signal?: AbortSignal,
+): Promise<TldPricing[]> {
+	const probes = new Map(
+		tlds.map((t) => {
+			const tld = t.toLowerCase().replace(/^\./, "");
+			return [priceProbeDomain(tld), tld];
+		}),
+	);
+	if (probes.size === 0) return [];
+
+	const url = `${config.baseUrl ?? DEFAULT_BASE_URL}/accounts/${encodeURIComponent(config.accountId)}/registrar/domains/check`;
+	const response = await fetch(url, {
+		method: "POST",
+		headers: {
+			Authorization: `Bearer ${config.apiToken}`,
+			"Content-Type": "application/json",
+			"User-Agent": "domain-muse/1.0",
+		},
+		body: JSON.stringify({ domains: [...probes.keys()] }),
+		signal: requestSignal(30000, signal),
+	});
+
+	const data = (await response
+		.json()
+		.catch(() => ({ success: false }))) as CloudflareResponse<{
+		domains?: CloudflareDomainCheck[];
+	}>;
+	if (!response.ok || !data.success) {
+		const message = data.errors?.[0]?.message ?? `HTTP ${response.status}`;
+		throw new Error(`Cloudflare: ${message}`);
+	}
+
+	const results: TldPricing[] = [];
+	for (const check of data.result?.domains ?? []) {
+		const tld = probes.get(check.name.toLowerCase());
+		if (!tld || !check.pricing) continue;
+		results.push({
+			tld,
+			registerPrice: check.pricing.registration_cost,
+			renewPrice: check.pricing.renewal_cost,
+			transferPrice: check.pricing.transfer_cost,
+			currency: check.pricing.currency,
+		});
+	}
+
+	return results.sort((a, b) => a.registerPrice - b.registerPrice);
+}
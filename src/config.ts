@@ -0,0 +1,151 @@
+import { readFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import type {
+	ContactDetails,
+	LlmConfig,
+	RegistrationProfile,
+} from "./types.js";
+
+/** Profile used when none is named */
+export const DEFAULT_PROFILE = "default";
+
+/** Contact fields every registry requires */
+const REQUIRED_CONTACT_FIELDS = [
+	"firstName",
+	"lastName",
+	"address1",
+	"city",
+	"stateProvince",
+	"postalCode",
+	"country",
+	"phone",
+	"email",
+] as const;
+
+/**
+ * On-disk layout of the config file.
+ */
+interface ConfigFile {
+	/** Language model selection used by search */
+	llm?: LlmConfig;
+	/** Registration profiles by name */
+	profiles?: Record<string, Partial<RegistrationProfile>>;
+}
+
+/**
+ * Gets the config file path, following the XDG base directory spec.
+ * @returns Absolute path to the domain-muse config file
+ */
+export function getConfigPath(): string {
+	const base = process.env.XDG_CONFIG_HOME || join(homedir(), ".config");
+	return join(base, "domain-muse", "config.json");
+}
+
+/**
+ * Checks that a contact has every required field in the format registrars expect.
+ * @param contact - Contact from the config file
+ * @param profile - Profile name for error messages
+ * @returns The contact, typed
+ * @throws Error naming the first missing or malformed field
+ */
+function validateContact(
+	contact: Partial<ContactDetails> | undefined,
+	profile: string,
+): ContactDetails {
+	if (!contact || typeof contact !== "object") {
+		throw new Error(`Profile "${profile}" has no contact details`);
+	}
+
+	for (const field of REQUIRED_CONTACT_FIELDS) {
+		const value = contact[field];
+		if (typeof value !== "string" || value.trim() === "") {
+			throw new Error(`Profile "${profile}" is missing contact.${field}`);
+		}
+	}
+
+	const { country, phone, email } = contact as ContactDetails;
+	if (!/^[a-z]{2}$/i.test(country)) {
+		throw new Error(
+			`Profile "${profile}": contact.country must be a two-letter country code`,
+		);
+	}
+	if (!/^\+\d{1,3}\.\d{4,14}$/.test(phone)) {
+		throw new Error(
+			`Profile "${profile}": contact.phone must look like +1.5555550100`,
+		);
+	}
+	if (!/^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(email)) {
+		throw new Error(`Profile "${profile}": contact.email is not valid`);
+	}
+
+	return contact as ContactDetails;
+}
+
+/**
+ * Reads and parses the config file.
+ * @returns Parsed config, or undefined if there is no config file
+ * @throws Error if the file cannot be read or is not valid JSON
+ */
+async function readConfigFile(): Promise<ConfigFile | undefined> {
+	const path = getConfigPath();
+	try {
+		return JSON.parse(await readFile(path, "utf8")) as ConfigFile;
+	} catch (e) {
+		if ((e as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+		throw new Error(
+			`Could not read ${path}: ${e instanceof Error ? e.message : "invalid JSON"}`,
+		);
+	}
+}
+
+/**
+ * Loads the language model selection from the config file's "llm" section.
+ * API keys are not read from the file; they stay in environment variables.
+ * @returns Provider, model and base URL that are set (empty without a config file)
+ * @throws Error if the file is invalid or a setting is not a string
+ */
+export async function loadLlmConfig(): Promise<LlmConfig> {
+	const llm = (await readConfigFile())?.llm;
+	if (llm === undefined) return {};
+
+	const settings: Record<string, string> = {};
+	for (const field of ["provider", "model", "baseUrl"] as const) {
+		const value = llm[field];
+		if (value === undefined) continue;
+		if (typeof value !== "string") {
+			throw new Error(`${getConfigPath()}: llm.${field} must be a string`);
+		}
+		settings[field] = value;
+	}
+	// Provider names are checked when the selection is resolved
+	return settings as LlmConfig;
+}
+
+/**
+ * Loads a registration profile from the config file.
+ * @param name - Profile name (default: "default")
+ * @returns The profile with validated contact details
+ * @throws Error if the file is missing or invalid, or the profile does not exist
+ */
+export async function loadProfile(
+	name = DEFAULT_PROFILE,
+): Promise<RegistrationProfile> {
+	const path = getConfigPath();
+	const config = await readConfigFile();
+	if (!config) throw new Error(`No config file at ${path}`);
+
+	const profile = config.profiles?.[name];
+	if (!profile) {
+		const names = Object.keys(config.profiles ?? {});
+		throw new Error(
+			`No profile "${name}" in ${path}${names.length > 0 ? ` (found: ${names.join(", ")})` : ""}`,
+		);
+	}
+
+	return {
+		contact: validateContact(profile.contact, name),
+		nameservers: profile.nameservers,
+		privacy: profile.privacy,
+	};
+}
@@ -0,0 +1,187 @@
+import { readFile } from "node:fs/promises";
+import { CACHE_TTL_MS, getCached, setCached } from "./cache.js";
+import type { CacheOptions, ExchangeRates, TldPricing } from "./types.js";
+import { requestSignal } from "./util.js";
+
+// European Central Bank reference rates, no key needed
+const RATES_URL = "https://api.frankfurter.dev/v1/latest?base=USD";
+const RATES_CACHE_NAMESPACE = "exchange-rates";
+const RATES_BASE = "USD";
+
+const formatters = new Map<string, Intl.NumberFormat>();
+
+/**
+ * Formats an amount of money with its currency symbol (e.g., "$9.58", "€8.80",
+ * "¥1,480", "CA$13.10"). Uses the currency's usual number of decimals.
+ * @param amount - Amount in currency units
+ * @param currency - ISO 4217 currency code (default: USD)
+ * @returns Formatted amount, or amount and code if the code is not valid
+ */
+export function formatMoney(amount: number, currency = "USD"): string {
+	const code = currency.toUpperCase();
+	let formatter = formatters.get(code);
+	if (!formatter) {
+		try {
+			formatter = new Intl.NumberFormat("en-US", {
+				style: "currency",
+				currency: code,
+			});
+		} catch {
+			return `${amount.toFixed(2)} ${code}`;
+		}
+		formatters.set(code, formatter);
+	}
+	return formatter.format(amount);
+}
+
+/**
+ * Converts an amount between currencies.
+ * @param amount - Amount in the source currency
+ * @param from - Source currency code
+ * @param to - Target currency code
+ * @param rates - Exchange rate table
+ * @returns Amount in the target currency
+ * @throws Error if the table has no rate for either currency
+ */
+export function convertAmount(
+	amount: number,
+	from: string,
+	to: string,
+	rates: ExchangeRates,
+): number {
+	const rate = (code: string) => {
+		const upper = code.toUpperCase();
+		if (upper === rates.base.toUpperCase()) return 1;
+		const value = rates.rates[upper];
+		if (!(value !== undefined && value > 0)) {
+			throw new Error(`No exchange rate for ${upper}`);
+		}
+		return value;
+	};
+	if (from.toUpperCase() === to.toUpperCase()) return amount;
+	return (amount / rate(from)) * rate(to);
+}
+
+/**
+ * Converts every price of a TLD quote to another currency.
+ * @param pricing - TLD pricing (or a registrar quote)
+ * @param to - Target currency code
+ * @param rates - Exchange rate table
+ * @returns A copy with converted prices and currency set to the target
+ * @throws Error if the table has no rate for either currency
+ */
+export function convertPricing<T extends TldPricing>(
+	pricing: T,
+	to: string,
+	rates: ExchangeRates,
+): T {
+	const convert = (amount: number) =>
+		convertAmount(amount, pricing.currency, to, rates);
+	const convertOptional = (amount: number | undefined) =>
+		amount === undefined ? undefined : convert(amount);
+	const convertPoints = (points: NonNullable<TldPricing["matrix"]>["renew"]) =>
+		points.map((p) => ({
+			...p,
+			price: convert(p.price),
+			regularPrice: convertOptional(p.regularPrice),
+		}));
+
+	return {
+		...pricing,
+		registerPrice: convert(pricing.registerPrice),
+		renewPrice: convert(pricing.renewPrice),
+		transferPrice: convertOptional(pricing.transferPrice),
+		regularRegisterPrice: convertOptional(pricing.regularRegisterPrice),
+		matrix: pricing.matrix && {
+			register: convertPoints(pricing.matrix.register),
+			renew: convertPoints(pricing.matrix.renew),
+			transfer: convertPoints(pricing.matrix.transfer),
+		},
+		currency: to.toUpperCase(),
+	};
+}
+
+/**
+ * Checks that parsed JSON is a rate table.
+ * @param data - Parsed JSON ({ base?, date?, rates })
+ * @param source - Where the data came from, for error messages
+ * @returns The rate table with upper-case codes (base defaults to USD)
+ * @throws Error if rates is missing or has non-positive values
+ */
+function toExchangeRates(data: unknown, source: string): ExchangeRates {
+	const { base, date, rates } = (data ?? {}) as Partial<ExchangeRates>;
+	if (!rates || typeof rates !== "object") {
+		throw new Error(`${source} has no "rates" object`);
+	}
+
+	const normalized: Record<string, number> = {};
+	for (const [code, value] of Object.entries(rates)) {
+		if (typeof value !== "number" || !(value > 0)) {
+			throw new Error(`${source}: rate for ${code} must be a positive number`);
+		}
+		normalized[code.toUpperCase()] = value;
+	}
+
+	return {
+		base: typeof base === "string" ? base.toUpperCase() : RATES_BASE,
+		date: typeof date === "string" ? date : undefined,
+		rates: normalized,
+	};
+}
+
+/**
+ * Loads an exchange rate table.
+ * A user-supplied file wins; otherwise cached ECB reference rates are used,
+ * fetched from frankfurter.dev when the cache has none.
+ * @param options - Rate file path, cache settings and an abort signal
+ * @returns Exchange rates
+ * @throws Error if the file is unreadable or the rates cannot be fetched
+ */
+export async function getExchangeRates(
+	options: { file?: string; cache?: CacheOptions; signal?: AbortSignal } = {},
+): Promise<ExchangeRates> {
+	if (options.file) {
+		let data: unknown;
+		try {
+			data = JSON.parse(await readFile(options.file, "utf8"));
+		} catch (e) {
+			throw new Error(
+				`Could not read ${options.file}: ${e instanceof Error ? e.message : "invalid JSON"}`,
+			);
+		}
+		return toExchangeRates(data, options.file);
+	}
+
+	if (options.cache && !options.cache.refresh) {
+		const hit = (
+			await getCached<ExchangeRates>(RATES_CACHE_NAMESPACE, [RATES_BASE])
+		).get(RATES_BASE);
+		if (hit) return hit;
+	}
+
+	let response: Response;
+	try {
+		response = await fetch(RATES_URL, {
+			headers: { "User-Agent": "domain-muse/1.0" },
+			signal: requestSignal(10000, options.signal),
+		});
+	} catch (e) {
+		throw new Error(
+			`Could not fetch exchange rates: ${e instanceof Error ? e.message : "network error"}`,
+		);
+	}
+	if (!response.ok) {
+		throw new Error(`Could not fetch exchange rates: HTTP ${response.status}`);
+	}
+	const rates = toExchangeRates(
+		await response.json(),
+		"Exchange rate response",
+	);
+
+	if (options.cache) {
+		await setCached(RATES_CACHE_NAMESPACE, [
+			{ key: RATES_BASE, value: rates, ttlMs: CACHE_TTL_MS.exchangeRates },
+		]);
+	}
+	return rates;
+}
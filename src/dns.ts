@@ -0,0 +1,174 @@
+import { Resolver } from "node:dns/promises";
+import pLimit from "p-limit";
+import { toAscii } from "./idn.js";
+import type { CheckContext, DomainCheckResult } from "./types.js";
+import { abortMessage, withDeadline } from "./util.js";
+
+// DNS is cheap and not rate limited by registries
+const DNS_CONCURRENCY = 20;
+const DNS_TIMEOUT_MS = 5000;
+
+/**
+ * Gets the error code of a failed DNS query.
+ * @param e - Error thrown by the resolver
+ * @returns Error code (e.g., "ENOTFOUND"), or undefined
+ */
+function errorCode(e: unknown): string | undefined {
+	return (e as NodeJS.ErrnoException).code;
+}
+
+/**
+ * Checks whether a domain is delegated in DNS.
+ * Queries NS first; if that fails for a reason other than the name not
+ * existing, an SOA query gets a second chance (lame delegations often
+ * fail NS queries but still answer SOA).
+ * @param resolver - DNS resolver to query
+ * @param name - ASCII domain name
+ * @returns True if the name is in the zone, false on NXDOMAIN
+ * @throws The NS query error if neither query gives an answer
+ */
+async function isDelegated(resolver: Resolver, name: string): Promise<boolean> {
+	try {
+		await resolver.resolveNs(name);
+		return true;
+	} catch (e) {
+		// NXDOMAIN: not in the zone, most likely unregistered
+		if (errorCode(e) === "ENOTFOUND") return false;
+		// Name exists but has no NS records of its own
+		if (errorCode(e) === "ENODATA") return true;
+		try {
+			await resolver.resolveSoa(name);
+			return true;
+		} catch (soaError) {
+			if (errorCode(soaError) === "ENOTFOUND") return false;
+			throw e;
+		}
+	}
+}
+
+/**
+ * Checks a single domain for delegated nameservers.
+ * @param resolver - DNS resolver to query
+ * @param domain - Domain name to check
+ * @param prefilter - Report undelegated names as undecided instead of available
+ * @param signal - Optional signal; once aborted, the domain is not queried
+ * @returns Check result (registered if the domain is delegated)
+ */
+async function checkViaDns(
+	resolver: Resolver,
+	domain: string,
+	prefilter: boolean,
+	signal?: AbortSignal,
+): Promise<DomainCheckResult> {
+	try {
+		signal?.throwIfAborted();
+		if (await isDelegated(resolver, toAscii(domain))) {
+			return {
+				domain,
+				status: "registered",
+				available: false,
+				isPremium: false,
+			};
+		}
+		if (prefilter) {
+			// Undelegated names may still be registered; leave them to the registry
+			return {
+				domain,
+				status: "unknown",
+				available: false,
+				isPremium: false,
+				error: "Not delegated in DNS",
+			};
+		}
+		return {
+			domain,
+			status: "available",
+			available: true,
+			isPremium: false,
+		};
+	} catch (e) {
+		const error = signal?.aborted
+			? abortMessage(signal)
+			: e instanceof Error
+				? e.message
+				: "DNS lookup failed";
+		return {
+			domain,
+			status: "unknown",
+			available: false,
+			isPremium: false,
+			error,
+		};
+	}
+}
+
+/**
+ * Runs DNS checks for many domains through one resolver.
+ * @param domains - Array of domain names to check
+ * @param context - Resolver servers, result callback, signal and deadline
+ * @param prefilter - Report undelegated names as undecided instead of available
+ * @returns Array of check results in same order as input
+ * @throws Error if a configured resolver address is invalid
+ */
+async function runDnsChecks(
+	domains: string[],
+	context: CheckContext,
+	prefilter: boolean,
+): Promise<DomainCheckResult[]> {
+	const signal = withDeadline(context.signal, context.deadline);
+	const resolver = new Resolver({ timeout: DNS_TIMEOUT_MS, tries: 2 });
+	if (context.dnsServers?.length) {
+		resolver.setServers(context.dnsServers);
+	}
+	const limit = pLimit(DNS_CONCURRENCY);
+	// Cancelling fails every in-flight query with ECANCELLED
+	const onAbort = () => resolver.cancel();
+	signal?.addEventListener("abort", onAbort, { once: true });
+
+	try {
+		return await Promise.all(
+			domains.map((domain) =>
+				limit(async () => {
+					const result = await checkViaDns(resolver, domain, prefilter, signal);
+					context.onResult?.(result);
+					return result;
+				}),
+			),
+		);
+	} finally {
+		signal?.removeEventListener("abort", onAbort);
+	}
+}
+
+/**
+ * Checks availability of multiple domains via DNS NS/SOA lookups.
+ * Fast heuristic: a missing delegation does not prove a domain is unregistered
+ * (registered domains can exist without nameservers).
+ * Lookups cut short by the context's signal or deadline come back unknown.
+ * @param domains - Array of domain names to check
+ * @param context - Resolver servers, result callback, signal and deadline
+ * @returns Array of check results in same order as input
+ * @throws Error if a configured resolver address is invalid
+ */
+export async function checkDomainsViaDns(
+	domains: string[],
+	context: CheckContext = {},
+): Promise<DomainCheckResult[]> {
+	return runDnsChecks(domains, context, false);
+}
+
+/**
+ * Marks delegated domains as registered without a registry lookup.
+ * Only positive answers are trusted: undelegated names come back unknown with
+ * an error, so a following checker (RDAP, WHOIS) decides them.
+ * @param domains - Array of domain names to check
+ * @param context - Resolver servers, result callback, signal and deadline
+ * @returns Array of check results in same order as input
+ * @throws Error if a configured resolver address is invalid
+ */
+export async function prefilterViaDns(
+	domains: string[],
+	context: CheckContext = {},
+): Promise<DomainCheckResult[]> {
+	return runDnsChecks(domains, context, true);
+}
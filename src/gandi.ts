@@ -0,0 +1,130 @@
+import type { GandiConfig, TldPricing } from "./types.js";
+import { priceProbeDomain, requestSignal } from "./util.js";
+
+const DEFAULT_BASE_URL = "https://api.gandi.net/v5";
+
+/**
+ * One price tier in a Gandi domain check response.
+ */
+interface GandiPrice {
+	min_duration: number;
+	max_duration: number;
+	duration_unit: string;
+	price_before_taxes: number;
+}
+
+/**
+ * One product (domain + process) in a Gandi domain check response.
+ */
+interface GandiProduct {
+	name: string;
+	status: string;
+	process: string;
+	prices?: GandiPrice[];
+}
+
+/**
+ * Response from Gandi's domain/check endpoint.
+ */
+interface GandiCheckResponse {
+	currency?: string;
+	products?: GandiProduct[];
+}
+
+/**
+ * Finds the one-year price of a process in a check response.
+ * @param products - Products from the response
+ * @param process - Gandi process name ("create", "renew" or "transfer")
+ * @returns Yearly price before taxes, or undefined if not quoted
+ */
+function yearlyPrice(
+	products: GandiProduct[],
+	process: string,
+): number | undefined {
+	const product = products.find((p) => p.process === process);
+	const price = product?.prices?.find(
+		(p) => p.duration_unit === "y" && p.min_duration <= 1,
+	);
+	return price?.price_before_taxes;
+}
+
+/**
+ * Gets the price of one TLD from Gandi.
+ * Gandi only quotes prices per domain, so a probe name is checked.
+ * @param config - Gandi API credentials
+ * @param tld - TLD without leading dot
+ * @param signal - Optional signal that cancels the request
+ * @returns TLD pricing, or undefined if Gandi does not sell the TLD
+ * @throws Error on HTTP errors
+ */
+async function getPrice(
+	config: GandiConfig,
+	tld: string,
+	signal?: AbortSignal,
+): Promise<TldPricing | undefined> {
+	const params = new URLSearchParams({
+		name: priceProbeDomain(tld),
+		currency: "USD",
+	});
+	params.append("processes", "create");
+	params.append("processes", "renew");
+	params.append("processes", "transfer");
+
+	const response = await fetch(
+		`${config.baseUrl ?? DEFAULT_BASE_URL}/domain/check?${params}`,
+		{
+			headers: {
+				Authorization: `Bearer ${config.apiKey}`,
+				"User-Agent": "domain-muse/1.0",
+			},
+			signal: requestSignal(30000, signal),
+		},
+	);
+
+	if (!response.ok) {
+		throw new Error(`Gandi HTTP ${response.status}`);
+	}
+
+	const data = (await response.json()) as GandiCheckResponse;
+	const products = data.products ?? [];
+	const registerPrice = yearlyPrice(products, "create");
+	if (registerPrice === undefined) return undefined;
+
+	return {
+		tld,
+		registerPrice,
+		renewPrice: yearlyPrice(products, "renew") ?? registerPrice,
+		transferPrice: yearlyPrice(products, "transfer"),
+		currency: data.currency ?? "USD",
+	};
+}
+
+/**
+ * Gets TLD pricing from the Gandi v5 API.
+ * TLDs Gandi does not sell are left out.
+ * @param config - Gandi API credentials
+ * @param tlds - TLDs to price
+ * @param signal - Optional signal that cancels the requests
+ * @returns Array of TLD pricing sorted by registration price
+ * @throws Error if every request fails
+ */
+export async function getTldPricing(
+	config: GandiConfig,
+	tlds: string[],
+	signal?: AbortSignal,
+): Promise<TldPricing[]> {
+	const settled = await Promise.allSettled(
+		tlds.map((t) =>
+			getPrice(config, t.toLowerCase().replace(/^\./, ""), signal),
+		),
+	);
+
+	const failure = settled.find((s) => s.status === "rejected");
+	if (failure && settled.every((s) => s.status === "rejected")) {
+		throw failure.reason;
+	}
+
+	return settled
+		.flatMap((s) => (s.status === "fulfilled" && s.value ? [s.value] : []))
+		.sort((a, b) => a.registerPrice - b.registerPrice);
+}
@@ -1,6 +1,12 @@
 import { generateObject } from "ai";
 import { z } from "zod";
+import { toAscii } from "./idn.js";
 import { getModel } from "./provider.js";
+import {
+	NAME_PREFIXES,
+	NAME_SUFFIXES,
+	generateRuleBasedIdeas,
+} from "./rules.js";
 import type { DomainIdea, GenerateOptions, GenerationResult } from "./types.js";
 
 const DomainIdeaSchema = z.object({
@@ -8,6 +14,9 @@ const DomainIdeaSchema = z.object({
 	wordCount: z.number(),
 });
 
+// Most recent exclusions sent to the LLM, to keep the prompt bounded
+const MAX_PROMPT_EXCLUSIONS = 300;
+
 const GenerationResultSchema = z.object({
 	names: z.array(DomainIdeaSchema),
 	reasoning: z.string(),
@@ -35,6 +44,18 @@ function buildPrompt(concept: string, options: GenerateOptions): string {
 - Consider acronyms and initialisms`
 		: "- Do NOT use abbreviations - use full words only";
 
+	const languageInstructions = options.language
+		? `LANGUAGE: Write every name in ${options.language}, using its native script and letters (accents, kana, hangul, etc.) rather than an English transliteration.
+Names will be registered as internationalized domain names.`
+		: "";
+
+	const exclusions = options.exclude?.slice(-MAX_PROMPT_EXCLUSIONS) ?? [];
+	const exclusionInstructions =
+		exclusions.length > 0
+			? `ALREADY TRIED: These names were suggested before and are mostly taken. Do NOT suggest them again, and avoid close variations of them - explore different words and styles instead:
+${exclusions.join(", ")}`
+			: "";
+
 	return `You are a creative brand naming expert. Generate ${count} unique, highly varied domain name ideas for:
 
 "${concept}"
@@ -76,8 +97,8 @@ ${allowHyphens ? '- Hyphenated phrases (like "track-my-habits")' : ""}`
 }
 
 OTHER VARIATIONS:
-- With common prefixes: get, try, use, go, my, hey, hi
-- With common suffixes: ly, ify, hub, lab, io, app, hq, base, kit
+- With common prefixes: ${NAME_PREFIXES.join(", ")}
+- With common suffixes: ${NAME_SUFFIXES.join(", ")}
 - Playful misspellings (like "lyft", "fiverr")
 - Unexpected word combinations
 
@@ -85,6 +106,10 @@ ${hyphenInstructions}
 
 ${abbreviationInstructions}
 
+${languageInstructions}
+
+${exclusionInstructions}
+
 DO NOT include TLDs (.com, .io) - just the base domain names.
 Generate EXACTLY ${count} unique names.
 
@@ -97,31 +122,31 @@ IMPORTANT: For each name, count the SEMANTIC words:
 }
 
 /**
- * Generates domain name ideas using an LLM.
- * @param concept - The concept or idea to generate domain names for
- * @param options - Generation options
- * @returns Generated domain ideas with LLM reasoning
+ * Normalizes generated names and drops unusable ones.
+ * Names are lower-cased and stripped of characters not allowed by the
+ * options, then kept if 3-20 characters long, valid as a DNS label, and not
+ * seen before.
+ * @param items - Raw ideas
+ * @param options - Generation options (allowHyphens, language)
+ * @param seen - Names to skip; kept names are added to it
+ * @returns Cleaned ideas
  */
-export async function generateDomainIdeas(
-	concept: string,
-	options: GenerateOptions = {},
-): Promise<GenerationResult> {
-	const model = getModel();
-	const prompt = buildPrompt(concept, options);
-	const temperature = options.creativity ?? 0.9;
-
-	const { object } = await generateObject({
-		model,
-		schema: GenerationResultSchema,
-		prompt,
-		temperature,
-	});
-
+function cleanIdeas(
+	items: DomainIdea[],
+	options: GenerateOptions,
+	seen: Set<string>,
+): DomainIdea[] {
 	const allowHyphens = options.allowHyphens ?? true;
-	const cleanPattern = allowHyphens ? /[^a-z0-9-]/g : /[^a-z0-9]/g;
-	const seen = new Set<string>();
+	// Native-script names keep letters and marks from any script
+	const cleanPattern = options.language
+		? allowHyphens
+			? /[^\p{L}\p{M}\p{N}-]/gu
+			: /[^\p{L}\p{M}\p{N}]/gu
+		: allowHyphens
+			? /[^a-z0-9-]/g
+			: /[^a-z0-9]/g;
 
-	const ideas: DomainIdea[] = object.names
+	return items
 		.map((item) => {
 			const cleanName = item.name
 				.toLowerCase()
@@ -133,18 +158,78 @@ export async function generateDomainIdeas(
 		})
 		.filter((item) => {
 			if (item.name.length < 3 || item.name.length > 20) return false;
+			// Labels must survive punycode conversion (max 63 ASCII characters)
+			const ascii = toAscii(`${item.name}.com`);
+			if (!ascii || ascii.length - 4 > 63) return false;
 			if (seen.has(item.name)) return false;
 			seen.add(item.name);
 			return true;
 		});
+}
+
+/**
+ * Generates domain name ideas using an LLM.
+ * @param concept - The concept or idea to generate domain names for
+ * @param options - Generation options
+ * @returns Raw ideas with LLM reasoning
+ */
+async function generateWithLlm(
+	concept: string,
+	options: GenerateOptions,
+): Promise<GenerationResult> {
+	const { object } = await generateObject({
+		model: getModel(options.llm),
+		schema: GenerationResultSchema,
+		prompt: buildPrompt(concept, options),
+		temperature: options.creativity ?? 0.9,
+		abortSignal: options.signal,
+	});
+	return { ideas: object.names, reasoning: object.reasoning };
+}
+
+/**
+ * Generates domain name ideas with an LLM, offline rules, or both.
+ * With a language set, LLM names may contain non-ASCII letters (IDN labels).
+ * With options.generator "both", the LLM generates half the count and the
+ * rules fill in the rest. Names in options.exclude are never returned.
+ * @param concept - The concept or idea to generate domain names for
+ * @param options - Generation options
+ * @returns Generated domain ideas with reasoning
+ * @throws Error if the LLM call fails, or the rules find no seed words
+ */
+export async function generateDomainIdeas(
+	concept: string,
+	options: GenerateOptions = {},
+): Promise<GenerationResult> {
+	const generator = options.generator ?? "llm";
+	const count = options.count ?? 30;
+	const seen = new Set<string>(options.exclude);
+
+	if (generator === "rules") {
+		const { ideas, reasoning } = generateRuleBasedIdeas(concept, options);
+		return { ideas: cleanIdeas(ideas, options, seen), reasoning };
+	}
 
-	return { ideas, reasoning: object.reasoning };
+	const llmCount = generator === "both" ? Math.ceil(count / 2) : count;
+	const llm = await generateWithLlm(concept, { ...options, count: llmCount });
+	const ideas = cleanIdeas(llm.ideas, options, seen);
+	if (generator === "llm") return { ideas, reasoning: llm.reasoning };
+
+	const rules = generateRuleBasedIdeas(concept, {
+		...options,
+		count: count - ideas.length,
+		exclude: [...seen],
+	});
+	return {
+		ideas: [...ideas, ...cleanIdeas(rules.ideas, options, seen)],
+		reasoning: `${llm.reasoning}\n\n${rules.reasoning}`,
+	};
 }
 
 /**
  * Combines domain name ideas with TLDs to create full domain names.
  * @param ideas - Array of domain name ideas
- * @param tlds - Array of TLDs to combine with (e.g., ["com", "io"])
+ * @param tlds - Array of TLDs or public suffixes to combine with (e.g., ["com", "co.uk"])
  * @returns Array of full domain names with metadata
  */
 export function combineWithTlds(
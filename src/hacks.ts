@@ -0,0 +1,91 @@
+import { isPublicSuffix } from "./publicsuffix.js";
+import { listRdapTlds } from "./rdap.js";
+import type { CacheOptions, DomainIdea } from "./types.js";
+
+// Shortest second-level label most registries accept
+const MIN_LABEL_LENGTH = 2;
+
+/**
+ * A domain whose TLD completes a word (e.g., "delicio.us" for "delicious").
+ */
+export interface DomainHack {
+	/** Domain to register (e.g., "delicio.us") */
+	domain: string;
+	/** Word the domain spells (e.g., "delicious") */
+	word: string;
+	/** Second-level label (e.g., "delicio") */
+	label: string;
+	/** TLD without leading dot (e.g., "us") */
+	tld: string;
+}
+
+/**
+ * Finds the domain hacks for a word: every TLD the word ends with, leaving a
+ * label in front. Only the last label is a TLD, so "deli.cio.us"-style hacks
+ * come out as the registrable "delicio.us", and TLDs that sell no
+ * second-level names (per the Public Suffix List) are skipped.
+ * @param word - Word or name (e.g., "habits")
+ * @param tlds - TLDs to try, without leading dot
+ * @returns Hacks, longest TLD first
+ */
+export function findDomainHacks(word: string, tlds: string[]): DomainHack[] {
+	const normalized = word.toLowerCase().replace(/[^a-z0-9-]/g, "");
+	const hacks: DomainHack[] = [];
+
+	for (const tld of tlds) {
+		// IDN TLDs (xn--) cannot complete a Latin word
+		if (!/^[a-z]{2,}$/.test(tld)) continue;
+		if (!normalized.endsWith(tld)) continue;
+
+		const label = normalized.slice(0, -tld.length);
+		if (label.length < MIN_LABEL_LENGTH || /^-|-$/.test(label)) continue;
+		// Registries like .ck only sell third-level names
+		const domain = `${label}.${tld}`;
+		if (isPublicSuffix(domain)) continue;
+		hacks.push({ domain, word: normalized, label, tld });
+	}
+
+	return hacks.sort((a, b) => b.tld.length - a.tld.length);
+}
+
+/**
+ * Turns name ideas into domain hack candidates, the counterpart of
+ * combineWithTlds for hacks.
+ * @param ideas - Domain name ideas
+ * @param tlds - TLDs to try, without leading dot
+ * @returns Candidates with the word each one spells
+ */
+export function combineWithHacks(
+	ideas: DomainIdea[],
+	tlds: string[],
+): Array<{
+	domain: string;
+	baseName: string;
+	tld: string;
+	wordCount: number;
+	hack: string;
+}> {
+	return ideas.flatMap((idea) =>
+		findDomainHacks(idea.name, tlds).map((h) => ({
+			domain: h.domain,
+			baseName: h.label,
+			tld: h.tld,
+			wordCount: idea.wordCount,
+			hack: h.word,
+		})),
+	);
+}
+
+/**
+ * Finds domain hacks for words across every TLD in the IANA RDAP bootstrap file.
+ * @param words - Words to spell (e.g., ["delicious", "recipes"])
+ * @param options - Cache settings and an abort signal for the bootstrap download
+ * @returns Hacks for all words, in word order
+ */
+export async function findDomainHacksForWords(
+	words: string[],
+	options: { cache?: CacheOptions; signal?: AbortSignal } = {},
+): Promise<DomainHack[]> {
+	const tlds = await listRdapTlds(options.cache, options.signal);
+	return words.flatMap((word) => findDomainHacks(word, tlds));
+}
@@ -0,0 +1,107 @@
+import { domainToASCII, domainToUnicode } from "node:url";
+import { parseDomain } from "./publicsuffix.js";
+
+/**
+ * Scripts each registry accepts in second-level labels.
+ * Bundled because the IANA RDAP bootstrap carries no IDN table data.
+ * An empty list means the registry does not accept IDNs at all;
+ * suffixes not listed here are not checked.
+ */
+const IDN_SCRIPTS: Record<string, string[]> = {
+	au: [],
+	cn: ["Han"],
+	de: ["Latin"],
+	gr: ["Greek"],
+	jp: ["Han", "Hiragana", "Katakana", "Latin"],
+	kr: ["Hangul"],
+	uk: [],
+};
+
+/**
+ * ASCII and Unicode forms of an internationalized domain name.
+ */
+export interface IdnForms {
+	/** ASCII-compatible (punycode) form, e.g. "xn--bcher-kva.de" */
+	punycode: string;
+	/** Unicode form, e.g. "bücher.de" */
+	unicode: string;
+}
+
+/**
+ * Converts a domain to its ASCII (punycode) form for lookups.
+ * @param domain - Domain in Unicode or ASCII form
+ * @returns Lowercase ASCII form, or empty string if the name is invalid
+ */
+export function toAscii(domain: string): string {
+	return domainToASCII(domain.trim());
+}
+
+/**
+ * Converts a domain to its Unicode form for display.
+ * @param domain - Domain in Unicode or ASCII form
+ * @returns Unicode form, or empty string if the name is invalid
+ */
+export function toUnicode(domain: string): string {
+	return domainToUnicode(domain.trim());
+}
+
+/**
+ * Gets both forms of a domain if it is internationalized.
+ * @param domain - Domain in Unicode or ASCII form
+ * @returns Punycode and Unicode forms, or undefined for plain ASCII names
+ */
+export function getIdnForms(domain: string): IdnForms | undefined {
+	const punycode = toAscii(domain);
+	if (!punycode || !punycode.split(".").some((l) => l.startsWith("xn--"))) {
+		return undefined;
+	}
+	return { punycode, unicode: toUnicode(punycode) };
+}
+
+/**
+ * Finds the scripts used by the letters of a label.
+ * Digits, hyphens and combining marks are ignored.
+ * @param label - Unicode label
+ * @param candidates - Scripts to test for; other letters count as "Other"
+ * @returns Script names (e.g., ["Latin", "Other"])
+ */
+function labelScripts(label: string, candidates: string[]): Set<string> {
+	const scripts = new Set<string>();
+	for (const char of label) {
+		if (!/\p{L}/u.test(char)) continue;
+		const script =
+			candidates.find((s) => new RegExp(`\\p{Script=${s}}`, "u").test(char)) ??
+			"Other";
+		scripts.add(script);
+	}
+	return scripts;
+}
+
+/**
+ * Checks whether the registry for a domain accepts its script.
+ * Plain ASCII names and unlisted registries always pass.
+ * @param domain - Domain in Unicode or ASCII form
+ * @returns Error message if the registry rejects the name, undefined otherwise
+ */
+export function checkIdnSupport(domain: string): string | undefined {
+	const forms = getIdnForms(domain);
+	if (!forms) return undefined;
+
+	const parsed = parseDomain(forms.punycode);
+	if (!parsed) return undefined;
+
+	const allowed = IDN_SCRIPTS[parsed.suffix] ?? IDN_SCRIPTS[parsed.tld];
+	if (!allowed) return undefined;
+
+	if (allowed.length === 0) {
+		return `.${parsed.suffix} does not accept internationalized names`;
+	}
+
+	const label = toUnicode(parsed.name);
+	const scripts = labelScripts(label, allowed);
+	const rejected = [...scripts].filter((s) => !allowed.includes(s));
+	if (rejected.length > 0) {
+		return `.${parsed.suffix} only accepts ${allowed.join("/")} script names`;
+	}
+	return undefined;
+}
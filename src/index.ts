@@ -1,17 +1,149 @@
+export { clearCache, getCacheDir, getCacheStats } from "./cache.js";
+export type { CacheStats } from "./cache.js";
 export {
+	DEFAULT_CHECKERS,
+	checkDomainsStream,
+	checkDomainsWith,
+	createRateLimiters,
+	getChecker,
+	listCheckers,
+	registerChecker,
+} from "./checkers.js";
+export { getTldPricing as getCloudflarePricing } from "./cloudflare.js";
+export {
+	DEFAULT_PROFILE,
+	getConfigPath,
+	loadLlmConfig,
+	loadProfile,
+} from "./config.js";
+export {
+	convertAmount,
+	convertPricing,
+	formatMoney,
+	getExchangeRates,
+} from "./currency.js";
+export { checkDomainsViaDns, prefilterViaDns } from "./dns.js";
+export { getTldPricing as getGandiPricing } from "./gandi.js";
+export {
+	NAMECHEAP_ERRORS,
+	NamecheapApiError,
 	checkDomains as checkDomainsNamecheap,
 	getTldPricing,
+	listDomains,
+	registerDomain,
 } from "./namecheap.js";
-export { checkDomains, checkDomainsRdap } from "./rdap.js";
+export type { NamecheapMessage } from "./namecheap.js";
+export {
+	checkDomains,
+	checkDomainsRdap,
+	checkDomainsViaRdap,
+	getDomainInfo,
+	listRdapTlds,
+} from "./rdap.js";
 export { generateDomainIdeas, combineWithTlds } from "./generate.js";
-export { searchDomains } from "./search.js";
+export {
+	combineWithHacks,
+	findDomainHacks,
+	findDomainHacksForWords,
+} from "./hacks.js";
+export type { DomainHack } from "./hacks.js";
+export { checkIdnSupport, getIdnForms, toAscii, toUnicode } from "./idn.js";
+export type { IdnForms } from "./idn.js";
+export { getTldPricing as getPorkbunPricing } from "./porkbun.js";
+export { daysUntilExpiry, filterExpiring, getPortfolio } from "./portfolio.js";
+export { MAX_YEARS, getPremiumTotalCost, getTotalCost } from "./pricing.js";
+export {
+	LLM_PROVIDERS,
+	getLlmConfigFromEnv,
+	getModel,
+	listLlmProviders,
+	resolveLlmConfig,
+} from "./provider.js";
+export type { LlmProviderStatus, ResolvedLlmConfig } from "./provider.js";
+export {
+	NAME_PREFIXES,
+	NAME_SUFFIXES,
+	extractSeedWords,
+	generateRuleBasedIdeas,
+} from "./rules.js";
+export { scoreName } from "./score.js";
+export {
+	addPublicSuffixes,
+	getPublicSuffix,
+	isPublicSuffix,
+	parseDomain,
+} from "./publicsuffix.js";
+export type { ParsedDomain } from "./publicsuffix.js";
+export {
+	RateLimitError,
+	createRateLimiter,
+	parseRetryAfter,
+} from "./ratelimit.js";
+export {
+	comparePricing,
+	findCheapest,
+	getRegistrar,
+	listRegistrars,
+	registerRegistrar,
+} from "./registrars.js";
+export type { PricingComparison } from "./registrars.js";
+export {
+	searchDomains,
+	searchDomainsStream,
+	sortSearchResults,
+} from "./search.js";
+export type { SearchEvent, SearchResult } from "./search.js";
 export type {
+	AvailabilityChecker,
+	AvailabilityStatus,
+	CacheOptions,
+	CheckContext,
+	CheckerPlan,
+	CloudflareConfig,
+	Confidence,
+	ContactDetails,
 	DomainCheckResult,
 	DomainIdea,
 	DomainSearchResult,
+	ExchangeRates,
+	GandiConfig,
 	GenerateOptions,
 	GenerationResult,
+	LlmConfig,
+	LlmProviderName,
+	NameGenerator,
+	NameScore,
 	NamecheapConfig,
+	OwnedDomain,
+	PorkbunConfig,
+	PriceMatrix,
+	PricePoint,
+	RateLimitOptions,
+	RateLimiter,
+	RateLimiters,
+	RateLimits,
+	RegistrarAdapter,
+	RegistrarConfig,
+	RegisterOptions,
+	RegistrarPricing,
+	RegistrationDetails,
+	RegistrationProfile,
+	RegistrationResult,
 	SearchOptions,
 	TldPricing,
+	Verification,
 } from "./types.js";
+export {
+	checkDomainsViaWhois,
+	findWhoisServer,
+	lookupWhois,
+	whoisQuery,
+} from "./whois.js";
+export type { WhoisLookupOptions, WhoisResponse } from "./whois.js";
+export {
+	WhoisParseError,
+	isWhoisRateLimited,
+	parseWhoisResponse,
+	registerWhoisParser,
+} from "./whoisparsers.js";
+export type { WhoisParser, WhoisVerdict } from "./whoisparsers.js";
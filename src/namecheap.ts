@@ -1,20 +1,94 @@
+import { CACHE_TTL_MS, getCached, setCached } from "./cache.js";
+import { toAscii } from "./idn.js";
+import { MAX_YEARS } from "./pricing.js";
 import type {
+	CacheOptions,
+	ContactDetails,
 	DomainCheckResult,
 	NamecheapConfig,
+	OwnedDomain,
+	PricePoint,
+	RegisterOptions,
+	RegistrationResult,
 	TldPricing,
 } from "./types.js";
+import { abortMessage, requestSignal } from "./util.js";
+import { type XmlElement, findAll, findFirst, parseXml } from "./xml.js";
 
 const SANDBOX_URL = "https://api.sandbox.namecheap.com/xml.response";
 const PRODUCTION_URL = "https://api.namecheap.com/xml.response";
+const PRICING_CACHE_NAMESPACE = "pricing";
+
+/** Namecheap error numbers with a known cause */
+export const NAMECHEAP_ERRORS = {
+	/** ApiUser parameter is missing */
+	API_USER_MISSING: "1010101",
+	/** ApiKey parameter is missing */
+	API_KEY_MISSING: "1010102",
+	/** ApiKey is invalid, or API access is not enabled for the account */
+	API_KEY_INVALID: "1011102",
+	/** ClientIp parameter is invalid */
+	CLIENT_IP_INVALID: "1011105",
+	/** The request came from an IP address that is not whitelisted */
+	IP_NOT_WHITELISTED: "1011150",
+	/** The API user is disabled or locked */
+	API_USER_LOCKED: "1017101",
+	/** The request IP is disabled or locked */
+	IP_LOCKED: "1017150",
+} as const;
+
+/**
+ * An error or warning in a Namecheap API response.
+ */
+export interface NamecheapMessage {
+	/** Namecheap error number (e.g., "1011150"), if given */
+	number?: string;
+	/** Message text */
+	message: string;
+}
+
+/**
+ * Thrown when the Namecheap API answers with Status="ERROR".
+ */
+export class NamecheapApiError extends Error {
+	/** Every error in the response, in order */
+	readonly errors: NamecheapMessage[];
+	/** Warnings sent along with the errors */
+	readonly warnings: NamecheapMessage[];
+
+	constructor(errors: NamecheapMessage[], warnings: NamecheapMessage[] = []) {
+		const text = errors.map((e) => e.message).join("; ") || "Unknown API error";
+		const number = errors.find((e) => e.number)?.number;
+		super(number ? `${text} (Namecheap error ${number})` : text);
+		this.name = "NamecheapApiError";
+		this.errors = errors;
+		this.warnings = warnings;
+	}
+
+	/** Error numbers in the response */
+	get codes(): string[] {
+		return this.errors.flatMap((e) => (e.number ? [e.number] : []));
+	}
+
+	/**
+	 * Checks whether the response contains an error number.
+	 * @param code - Error number, e.g. NAMECHEAP_ERRORS.IP_NOT_WHITELISTED
+	 * @returns True if any error has this number
+	 */
+	hasCode(code: string): boolean {
+		return this.codes.includes(code);
+	}
+}
 
 /**
  * Detects the client's public IP address via ipify.org.
+ * @param signal - Optional signal that cancels the request
  * @returns Public IP address string
  * @throws Error if IP detection fails
  */
-async function detectClientIp(): Promise<string> {
+async function detectClientIp(signal?: AbortSignal): Promise<string> {
 	const response = await fetch("https://api.ipify.org", {
-		signal: AbortSignal.timeout(5000),
+		signal: requestSignal(5000, signal),
 	});
 	if (!response.ok) {
 		throw new Error(`Failed to detect client IP: HTTP ${response.status}`);
@@ -34,7 +108,8 @@ function buildApiUrl(
 	command: string,
 	params: Record<string, string>,
 ): string {
-	const baseUrl = config.sandbox ? SANDBOX_URL : PRODUCTION_URL;
+	const baseUrl =
+		config.baseUrl ?? (config.sandbox ? SANDBOX_URL : PRODUCTION_URL);
 	const allParams = {
 		ApiUser: config.apiUser,
 		ApiKey: config.apiKey,
@@ -51,45 +126,125 @@ function buildApiUrl(
 }
 
 /**
- * Checks Namecheap API XML response for error status.
+ * Collects the errors or warnings of a response.
+ * @param root - Parsed ApiResponse element
+ * @param name - "Error" or "Warning"
+ * @returns Messages with their numbers
+ */
+function collectMessages(root: XmlElement, name: string): NamecheapMessage[] {
+	return findAll(root, name).map((e) => ({
+		number: e.attributes.Number,
+		message: e.text,
+	}));
+}
+
+/**
+ * Parses a Namecheap API response and checks its status.
  * @param xml - Raw XML response from Namecheap API
- * @returns Error message if present, null otherwise
+ * @returns The CommandResponse element
+ * @throws NamecheapApiError if the response status is ERROR
+ * @throws Error if the response is not XML or has no CommandResponse
+ */
+function parseApiResponse(xml: string): XmlElement {
+	let root: XmlElement;
+	try {
+		root = parseXml(xml);
+	} catch (e) {
+		throw new Error(
+			`Invalid Namecheap response: ${e instanceof Error ? e.message : "not XML"}`,
+		);
+	}
+
+	if (root.attributes.Status?.toUpperCase() === "ERROR") {
+		throw new NamecheapApiError(
+			collectMessages(root, "Error"),
+			collectMessages(root, "Warning"),
+		);
+	}
+
+	const response = findFirst(root, "CommandResponse");
+	if (!response) {
+		throw new Error("Namecheap response has no CommandResponse");
+	}
+	return response;
+}
+
+/**
+ * Calls a Namecheap API command.
+ * @param config - Namecheap API configuration
+ * @param command - API command name (e.g., "namecheap.domains.check")
+ * @param params - Command parameters, including ClientIp
+ * @param timeoutMs - Request timeout
+ * @param signal - Optional signal that cancels the request
+ * @returns The CommandResponse element
+ * @throws NamecheapApiError on API errors, Error on HTTP or parse errors
  */
-function checkApiError(xml: string): string | null {
-	if (xml.includes('Status="ERROR"')) {
-		const errorMatch = xml.match(/<Error[^>]*>([^<]*)<\/Error>/);
-		return errorMatch?.[1] ?? "Unknown API error";
+async function callApi(
+	config: NamecheapConfig,
+	command: string,
+	params: Record<string, string>,
+	timeoutMs: number,
+	signal?: AbortSignal,
+): Promise<XmlElement> {
+	const response = await fetch(buildApiUrl(config, command, params), {
+		headers: { "User-Agent": "domain-muse/1.0" },
+		signal: requestSignal(timeoutMs, signal),
+	});
+
+	if (!response.ok) {
+		throw new Error(`HTTP ${response.status}`);
 	}
-	return null;
+
+	return parseApiResponse(await response.text());
+}
+
+/**
+ * Parses a decimal attribute.
+ * @param value - Attribute value
+ * @returns The number, or undefined if missing or not a number
+ */
+function parseDecimal(value: string | undefined): number | undefined {
+	const parsed = Number.parseFloat(value ?? "");
+	return Number.isNaN(parsed) ? undefined : parsed;
 }
 
 /**
- * Parses domain check results from Namecheap API XML response.
- * Extracts attributes order-independently to handle varying XML formats.
- * @param xml - Raw XML response from domains.check API
+ * Parses domain check results from a domains.check response.
+ * Domains Namecheap reports an error for (e.g., unsupported TLDs) come back unknown.
+ * @param response - CommandResponse element from domains.check
  * @returns Array of domain check results
  */
-function parseDomainCheckResults(xml: string): DomainCheckResult[] {
+function parseDomainCheckResults(response: XmlElement): DomainCheckResult[] {
 	const results: DomainCheckResult[] = [];
-	const domainRegex = /<DomainCheckResult\s+([^>]*)\/>/g;
-
-	for (const match of xml.matchAll(domainRegex)) {
-		const attrs = match[1] ?? "";
-		const domain = attrs.match(/Domain="([^"]*)"/)?.[1] ?? "";
-		const available =
-			attrs.match(/Available="([^"]*)"/)?.[1]?.toLowerCase() === "true";
-		const isPremium =
-			attrs.match(/IsPremiumName="([^"]*)"/)?.[1]?.toLowerCase() === "true";
-		const premiumPriceStr = attrs.match(
-			/PremiumRegistrationPrice="([^"]*)"/,
-		)?.[1];
-		const premiumPrice = premiumPriceStr
-			? Number.parseFloat(premiumPriceStr)
-			: undefined;
-
-		if (domain) {
-			results.push({ domain, available, isPremium, premiumPrice });
+
+	for (const { attributes } of findAll(response, "DomainCheckResult")) {
+		const domain = attributes.Domain;
+		if (!domain) continue;
+
+		const errorNo = attributes.ErrorNo;
+		if (errorNo && errorNo !== "0") {
+			results.push({
+				domain,
+				status: "unknown",
+				available: false,
+				isPremium: false,
+				error: `${attributes.Description || "Check failed"} (Namecheap error ${errorNo})`,
+			});
+			continue;
 		}
+
+		const available = attributes.Available?.toLowerCase() === "true";
+		const isPremium = attributes.IsPremiumName?.toLowerCase() === "true";
+		results.push({
+			domain,
+			status: available ? "available" : "registered",
+			available,
+			isPremium,
+			premiumPrice: parseDecimal(attributes.PremiumRegistrationPrice),
+			premiumRenewPrice: isPremium
+				? parseDecimal(attributes.PremiumRenewalPrice)
+				: undefined,
+		});
 	}
 
 	return results;
@@ -98,15 +253,23 @@ function parseDomainCheckResults(xml: string): DomainCheckResult[] {
 /**
  * Checks domain availability via Namecheap API.
  * Processes domains in batches of 50 (API limit).
+ * Internationalized names are sent in punycode and reported as given.
+ * Batches that fail in transport come back unknown; an error response for the
+ * whole request (e.g., a non-whitelisted IP) is thrown, since every batch
+ * would fail the same way.
  * @param config - Namecheap API configuration
  * @param domains - Array of domain names to check
+ * @param signal - Optional signal; batches not checked by then come back unknown
  * @returns Array of check results with availability and premium status
+ * @throws NamecheapApiError if Namecheap rejects the request
+ * @throws Error if the client IP cannot be determined
  */
 export async function checkDomains(
 	config: NamecheapConfig,
 	domains: string[],
+	signal?: AbortSignal,
 ): Promise<DomainCheckResult[]> {
-	const clientIp = config.clientIp ?? (await detectClientIp());
+	const clientIp = config.clientIp ?? (await detectClientIp(signal));
 	if (!clientIp) {
 		throw new Error("Could not determine client IP for Namecheap API");
 	}
@@ -116,52 +279,39 @@ export async function checkDomains(
 
 	for (let i = 0; i < domains.length; i += batchSize) {
 		const batch = domains.slice(i, i + batchSize);
-		const domainList = batch.join(",");
+		const inputByAscii = new Map(
+			batch.map((d) => [toAscii(d) || d.toLowerCase(), d]),
+		);
+		const domainList = [...inputByAscii.keys()].join(",");
 
 		try {
-			const url = buildApiUrl(config, "namecheap.domains.check", {
-				DomainList: domainList,
-				ClientIp: clientIp,
-			});
-
-			const response = await fetch(url, {
-				headers: { "User-Agent": "domain-muse/1.0" },
-				signal: AbortSignal.timeout(30000),
-			});
-
-			if (!response.ok) {
-				const error = await response.text();
-				for (const domain of batch) {
-					results.push({
-						domain,
-						available: false,
-						isPremium: false,
-						error: `HTTP ${response.status}: ${error}`,
-					});
-				}
-				continue;
+			const response = await callApi(
+				config,
+				"namecheap.domains.check",
+				{ DomainList: domainList, ClientIp: clientIp },
+				30000,
+				signal,
+			);
+
+			for (const result of parseDomainCheckResults(response)) {
+				const input = inputByAscii.get(result.domain.toLowerCase());
+				results.push(input ? { ...result, domain: input } : result);
 			}
-
-			const xml = await response.text();
-			const apiError = checkApiError(xml);
-
-			if (apiError) {
-				for (const domain of batch) {
-					results.push({
-						domain,
-						available: false,
-						isPremium: false,
-						error: apiError,
-					});
-				}
-				continue;
-			}
-
-			results.push(...parseDomainCheckResults(xml));
 		} catch (e) {
-			const error = e instanceof Error ? e.message : "Unknown error";
+			if (e instanceof NamecheapApiError) throw e;
+			const error = signal?.aborted
+				? abortMessage(signal)
+				: e instanceof Error
+					? e.message
+					: "Unknown error";
 			for (const domain of batch) {
-				results.push({ domain, available: false, isPremium: false, error });
+				results.push({
+					domain,
+					status: "unknown",
+					available: false,
+					isPremium: false,
+					error,
+				});
 			}
 		}
 	}
@@ -169,121 +319,393 @@ export async function checkDomains(
 	return results;
 }
 
+/** Prices for one TLD in one pricing category */
+interface CategoryPrices {
+	/** Prices by duration, shortest first */
+	points: PricePoint[];
+	/** Currency code */
+	currency: string;
+}
+
 /**
- * Parses TLD pricing from Namecheap API XML response.
- * Extracts 1-year prices with order-independent attribute parsing.
- * @param xml - Raw XML response from getPricing API
- * @param tlds - Optional TLD filter (returns all if not specified)
- * @returns Map of TLD to price and currency
+ * Parses TLD pricing from a users.getPricing response.
+ * Keeps every yearly duration up to MAX_YEARS.
+ * "MULTIPLE" prices are per year and are multiplied out to the duration's total.
+ * @param response - CommandResponse element from users.getPricing
+ * @returns Map of TLD to prices by duration
  */
-function parsePriceFromXml(
-	xml: string,
-	tlds?: string[],
-): Map<string, { price: number; currency: string }> {
-	const results = new Map<string, { price: number; currency: string }>();
-	const requestedTlds = tlds?.map((t) => t.toLowerCase().replace(/^\./, ""));
-	const productRegex = /<Product\s+Name="([^"]*)"[^>]*>([\s\S]*?)<\/Product>/g;
+function parsePricing(response: XmlElement): Map<string, CategoryPrices> {
+	const results = new Map<string, CategoryPrices>();
+
+	for (const product of findAll(response, "Product")) {
+		const tld = (product.attributes.Name ?? "").toLowerCase();
+		if (!tld) continue;
+
+		const points: PricePoint[] = [];
+		let currency = "USD";
+		for (const { attributes } of findAll(product, "Price")) {
+			const years = Number(attributes.Duration);
+			const durationType = attributes.DurationType ?? "YEAR";
+			if (durationType !== "YEAR" || !(years >= 1 && years <= MAX_YEARS)) {
+				continue;
+			}
 
-	for (const productMatch of xml.matchAll(productRegex)) {
-		const tld = (productMatch[1] ?? "").toLowerCase();
-		if (requestedTlds && !requestedTlds.includes(tld)) {
-			continue;
+			const price = parseDecimal(attributes.YourPrice ?? attributes.Price);
+			if (price === undefined) continue;
+			const regular = parseDecimal(attributes.RegularPrice);
+			const multiplier = attributes.PricingType === "ABSOLUTE" ? 1 : years;
+
+			points.push({
+				years,
+				price: price * multiplier,
+				// Only kept when a promotion or discount lowers the price
+				regularPrice:
+					regular !== undefined && regular > price
+						? regular * multiplier
+						: undefined,
+			});
+			currency = attributes.Currency ?? currency;
 		}
 
-		const productContent = productMatch[2] ?? "";
-		// Find Price element with Duration="1" - extract attributes separately to avoid order dependency
-		const priceElementRegex = /<Price\s+([^>]*)\/>/g;
-		for (const priceMatch of productContent.matchAll(priceElementRegex)) {
-			const attrs = priceMatch[1] ?? "";
-			const duration = attrs.match(/Duration="([^"]*)"/)?.[1];
-			if (duration !== "1") continue;
-
-			const priceValue = attrs.match(/Price="([^"]*)"/)?.[1];
-			const currency = attrs.match(/Currency="([^"]*)"/)?.[1] ?? "USD";
-
-			if (priceValue) {
-				results.set(tld, {
-					price: Number.parseFloat(priceValue),
-					currency,
-				});
-				break; // Found the 1-year price for this TLD
-			}
+		if (points.length > 0) {
+			results.set(tld, {
+				points: points.sort((a, b) => a.years - b.years),
+				currency,
+			});
 		}
 	}
 
 	return results;
 }
 
+/** Namecheap price list category */
+type PricingCategory = "REGISTER" | "RENEW" | "TRANSFER";
+
 /**
- * Fetches pricing for a specific category (REGISTER or RENEW).
+ * Fetches pricing for a specific category (REGISTER, RENEW or TRANSFER).
  * @param config - Namecheap API configuration
  * @param clientIp - Client IP address for API authentication
  * @param category - Pricing category to fetch
- * @param tlds - Optional TLD filter
- * @returns Map of TLD to price and currency
+ * @param signal - Optional signal that cancels the request
+ * @returns Map of every TLD to its prices by duration
  */
 async function fetchPricingCategory(
 	config: NamecheapConfig,
 	clientIp: string,
-	category: "REGISTER" | "RENEW",
-	tlds?: string[],
-): Promise<Map<string, { price: number; currency: string }>> {
-	const url = buildApiUrl(config, "namecheap.users.getPricing", {
-		ProductType: "DOMAIN",
-		ProductCategory: category,
-		ClientIp: clientIp,
-	});
+	category: PricingCategory,
+	signal?: AbortSignal,
+): Promise<Map<string, CategoryPrices>> {
+	const response = await callApi(
+		config,
+		"namecheap.users.getPricing",
+		{ ProductType: "DOMAIN", ProductCategory: category, ClientIp: clientIp },
+		30000,
+		signal,
+	);
+
+	return parsePricing(response);
+}
 
-	const response = await fetch(url, {
-		headers: { "User-Agent": "domain-muse/1.0" },
-		signal: AbortSignal.timeout(30000),
-	});
+/**
+ * Gets the cache key for a price list.
+ * Prices depend on the account's pricing tier and on sandbox vs production.
+ * @param config - Namecheap API configuration
+ * @param category - Pricing category
+ * @returns Cache key
+ */
+function pricingCacheKey(
+	config: NamecheapConfig,
+	category: PricingCategory,
+): string {
+	const endpoint =
+		config.baseUrl ?? (config.sandbox ? "sandbox" : "production");
+	return `${endpoint}:${config.username ?? config.apiUser}:${category}`;
+}
 
-	if (!response.ok) {
-		throw new Error(`HTTP ${response.status}`);
+/**
+ * Loads price lists from the cache, fetching and storing the ones it misses.
+ * @param config - Namecheap API configuration
+ * @param categories - Pricing categories to load
+ * @param cache - Cache settings (no caching if undefined)
+ * @param signal - Optional signal that cancels the requests
+ * @returns Map of every TLD to its prices by duration, per category
+ * @throws Error if a price list cannot be fetched
+ */
+async function loadPricingCategories(
+	config: NamecheapConfig,
+	categories: PricingCategory[],
+	cache: CacheOptions | undefined,
+	signal?: AbortSignal,
+): Promise<Map<PricingCategory, Map<string, CategoryPrices>>> {
+	const loaded = new Map<PricingCategory, Map<string, CategoryPrices>>();
+	if (cache && !cache.refresh) {
+		const hits = await getCached<Record<string, CategoryPrices>>(
+			PRICING_CACHE_NAMESPACE,
+			categories.map((c) => pricingCacheKey(config, c)),
+		);
+		for (const category of categories) {
+			const hit = hits.get(pricingCacheKey(config, category));
+			if (hit) loaded.set(category, new Map(Object.entries(hit)));
+		}
 	}
 
-	const xml = await response.text();
-	const apiError = checkApiError(xml);
-	if (apiError) {
-		throw new Error(apiError);
+	const missing = categories.filter((c) => !loaded.has(c));
+	if (missing.length === 0) return loaded;
+
+	const clientIp = config.clientIp ?? (await detectClientIp(signal));
+	if (!clientIp) {
+		throw new Error("Could not determine client IP for Namecheap API");
 	}
+	const fetched = await Promise.all(
+		missing.map((c) => fetchPricingCategory(config, clientIp, c, signal)),
+	);
+	missing.forEach((category, i) => {
+		loaded.set(category, fetched[i] ?? new Map());
+	});
 
-	return parsePriceFromXml(xml, tlds);
+	if (cache) {
+		await setCached(
+			PRICING_CACHE_NAMESPACE,
+			missing.map((category, i) => ({
+				key: pricingCacheKey(config, category),
+				value: Object.fromEntries(fetched[i] ?? []),
+				ttlMs: cache.pricingTtlMs ?? CACHE_TTL_MS.pricing,
+			})),
+		);
+	}
+	return loaded;
 }
 
 /**
  * Gets TLD pricing information from Namecheap API.
- * Fetches both registration and renewal prices in parallel.
+ * Fetches registration, renewal and transfer prices in parallel and keeps
+ * every duration from 1 to 10 years in the price matrix. With a cache, the
+ * full price lists are kept on disk so later calls skip the large downloads.
  * @param config - Namecheap API configuration
  * @param tlds - Optional TLD filter (returns all available if not specified)
+ * @param signal - Optional signal that cancels the requests
+ * @param cache - Optional on-disk cache settings for the price lists
  * @returns Array of TLD pricing sorted by registration price
  */
 export async function getTldPricing(
 	config: NamecheapConfig,
 	tlds?: string[],
+	signal?: AbortSignal,
+	cache?: CacheOptions,
 ): Promise<TldPricing[]> {
-	const clientIp = config.clientIp ?? (await detectClientIp());
-	if (!clientIp) {
-		throw new Error("Could not determine client IP for Namecheap API");
-	}
-
-	// Fetch both register and renew pricing in parallel
-	const [registerPricing, renewPricing] = await Promise.all([
-		fetchPricingCategory(config, clientIp, "REGISTER", tlds),
-		fetchPricingCategory(config, clientIp, "RENEW", tlds),
-	]);
+	const prices = await loadPricingCategories(
+		config,
+		["REGISTER", "RENEW", "TRANSFER"],
+		cache,
+		signal,
+	);
+	const registerPricing = prices.get("REGISTER");
+	const renewPricing = prices.get("RENEW");
+	const transferPricing = prices.get("TRANSFER");
+	const requestedTlds = tlds?.map((t) => t.toLowerCase().replace(/^\./, ""));
 
 	const results: TldPricing[] = [];
-	for (const [tld, { price: registerPrice, currency }] of registerPricing) {
-		const renewData = renewPricing.get(tld);
+	for (const [tld, { points, currency }] of registerPricing ?? []) {
+		if (requestedTlds && !requestedTlds.includes(tld)) continue;
+		const oneYear = points.find((p) => p.years === 1);
+		if (!oneYear) continue;
+
+		const renew = renewPricing?.get(tld)?.points ?? [];
+		const transfer = transferPricing?.get(tld)?.points ?? [];
 		results.push({
 			tld,
-			registerPrice,
-			renewPrice: renewData?.price ?? registerPrice,
+			registerPrice: oneYear.price,
+			renewPrice: renew.find((p) => p.years === 1)?.price ?? oneYear.price,
+			transferPrice: transfer.find((p) => p.years === 1)?.price,
+			regularRegisterPrice: oneYear.regularPrice,
+			matrix: { register: points, renew, transfer },
 			currency,
 		});
 	}
 
 	return results.sort((a, b) => a.registerPrice - b.registerPrice);
 }
+
+/** Namecheap contact roles; each needs its own copy of the contact fields */
+const CONTACT_ROLES = ["Registrant", "Tech", "Admin", "AuxBilling"] as const;
+
+/**
+ * Builds domains.create contact parameters for every contact role.
+ * @param contact - Contact details
+ * @returns Query parameters such as RegistrantFirstName and TechEmailAddress
+ */
+function contactParams(contact: ContactDetails): Record<string, string> {
+	const fields: Record<string, string | undefined> = {
+		FirstName: contact.firstName,
+		LastName: contact.lastName,
+		OrganizationName: contact.organization,
+		Address1: contact.address1,
+		Address2: contact.address2,
+		City: contact.city,
+		StateProvince: contact.stateProvince,
+		PostalCode: contact.postalCode,
+		Country: contact.country.toUpperCase(),
+		Phone: contact.phone,
+		EmailAddress: contact.email,
+	};
+
+	const params: Record<string, string> = {};
+	for (const role of CONTACT_ROLES) {
+		for (const [field, value] of Object.entries(fields)) {
+			if (value) params[`${role}${field}`] = value;
+		}
+	}
+	return params;
+}
+
+/**
+ * Parses the result of a domains.create call.
+ * @param response - CommandResponse element from domains.create
+ * @returns Registration result, or undefined if the response has none
+ */
+function parseCreateResult(
+	response: XmlElement,
+): RegistrationResult | undefined {
+	const result = findFirst(response, "DomainCreateResult");
+	if (!result) return undefined;
+	const { attributes } = result;
+
+	return {
+		domain: attributes.Domain ?? "",
+		registered: attributes.Registered?.toLowerCase() === "true",
+		chargedAmount: parseDecimal(attributes.ChargedAmount) ?? 0,
+		orderId: attributes.OrderID,
+		transactionId: attributes.TransactionID,
+	};
+}
+
+/**
+ * Registers a domain via the Namecheap API (namecheap.domains.create).
+ * The account balance is charged; with config.sandbox the sandbox API is used
+ * and nothing is billed. The same contact is used for every contact role.
+ * @param config - Namecheap API configuration
+ * @param domain - Domain name to register (IDNs are sent in punycode)
+ * @param options - Years, contact details, nameservers, privacy and premium price
+ * @param signal - Optional signal that cancels the request
+ * @returns Registration result with the amount charged
+ * @throws Error on HTTP errors, API errors (with the Namecheap error number) or
+ *   if the registry did not accept the registration
+ */
+export async function registerDomain(
+	config: NamecheapConfig,
+	domain: string,
+	options: RegisterOptions,
+	signal?: AbortSignal,
+): Promise<RegistrationResult> {
+	const clientIp = config.clientIp ?? (await detectClientIp(signal));
+	if (!clientIp) {
+		throw new Error("Could not determine client IP for Namecheap API");
+	}
+
+	const params: Record<string, string> = {
+		ClientIp: clientIp,
+		DomainName: toAscii(domain) || domain.toLowerCase(),
+		Years: String(options.years),
+		...contactParams(options.contact),
+	};
+	if (options.nameservers && options.nameservers.length > 0) {
+		params.Nameservers = options.nameservers.join(",");
+	}
+	if (options.privacy !== false) {
+		params.AddFreeWhoisguard = "yes";
+		params.WGEnabled = "yes";
+	}
+	if (options.premiumPrice !== undefined) {
+		params.IsPremiumDomain = "true";
+		params.PremiumPrice = options.premiumPrice.toFixed(2);
+	}
+
+	const response = await callApi(
+		config,
+		"namecheap.domains.create",
+		params,
+		60000,
+		signal,
+	);
+
+	const result = parseCreateResult(response);
+	if (!result?.registered) {
+		throw new Error(`Namecheap did not register ${domain}`);
+	}
+	return { ...result, domain };
+}
+
+// Largest page domains.getList accepts
+const LIST_PAGE_SIZE = 100;
+
+/**
+ * Converts a Namecheap MM/DD/YYYY date to ISO 8601.
+ * @param value - Date attribute
+ * @returns ISO date string, or undefined if the value is not a date
+ */
+function parseListDate(value: string | undefined): string | undefined {
+	const match = value?.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+	if (!match) return undefined;
+	const [, month, day, year] = match;
+	return new Date(
+		Date.UTC(Number(year), Number(month) - 1, Number(day)),
+	).toISOString();
+}
+
+/**
+ * Lists every domain in the Namecheap account (namecheap.domains.getList).
+ * Pages through the list 100 domains at a time.
+ * @param config - Namecheap API configuration
+ * @param signal - Optional signal that cancels the requests
+ * @returns Owned domains in the order Namecheap returns them, without prices
+ * @throws NamecheapApiError on API errors, Error on HTTP or parse errors
+ */
+export async function listDomains(
+	config: NamecheapConfig,
+	signal?: AbortSignal,
+): Promise<OwnedDomain[]> {
+	const clientIp = config.clientIp ?? (await detectClientIp(signal));
+	if (!clientIp) {
+		throw new Error("Could not determine client IP for Namecheap API");
+	}
+
+	const domains: OwnedDomain[] = [];
+	for (let page = 1; ; page++) {
+		const response = await callApi(
+			config,
+			"namecheap.domains.getList",
+			{
+				ClientIp: clientIp,
+				ListType: "ALL",
+				Page: String(page),
+				PageSize: String(LIST_PAGE_SIZE),
+			},
+			30000,
+			signal,
+		);
+
+		const entries = findAll(response, "Domain");
+		for (const { attributes } of entries) {
+			const expiresAt = parseListDate(attributes.Expires);
+			if (!attributes.Name || !expiresAt) continue;
+			domains.push({
+				domain: attributes.Name,
+				createdAt: parseListDate(attributes.Created),
+				expiresAt,
+				isExpired: attributes.IsExpired?.toLowerCase() === "true",
+				isLocked: attributes.IsLocked?.toLowerCase() === "true",
+				autoRenew: attributes.AutoRenew?.toLowerCase() === "true",
+				privacy: attributes.WhoisGuard?.toUpperCase() === "ENABLED",
+				isPremium: attributes.IsPremium?.toLowerCase() === "true",
+			});
+		}
+
+		const total = Number(findFirst(response, "TotalItems")?.text);
+		if (
+			entries.length < LIST_PAGE_SIZE ||
+			(total > 0 && page * LIST_PAGE_SIZE >= total)
+		) {
+			return domains;
+		}
+	}
+}
@@ -0,0 +1,82 @@
+import type { PorkbunConfig, TldPricing } from "./types.js";
+import { requestSignal } from "./util.js";
+
+const DEFAULT_BASE_URL = "https://api.porkbun.com/api/json/v3";
+
+/**
+ * Porkbun's price entry for one TLD. Prices are decimal strings in USD;
+ * registration already reflects any first-year sale price.
+ */
+interface PorkbunPrice {
+	registration?: string;
+	renewal?: string;
+	transfer?: string;
+}
+
+/**
+ * Response from Porkbun's pricing/get endpoint.
+ */
+interface PorkbunPricingResponse {
+	status: string;
+	message?: string;
+	pricing?: Record<string, PorkbunPrice>;
+}
+
+/**
+ * Gets TLD pricing from Porkbun's public pricing API.
+ * One request returns every TLD Porkbun sells.
+ * @param config - Porkbun settings
+ * @param tlds - TLDs to keep (returns all if not specified)
+ * @param signal - Optional signal that cancels the request
+ * @returns Array of TLD pricing sorted by registration price
+ * @throws Error on HTTP or API errors
+ */
+export async function getTldPricing(
+	config: PorkbunConfig = {},
+	tlds?: string[],
+	signal?: AbortSignal,
+): Promise<TldPricing[]> {
+	const response = await fetch(
+		`${config.baseUrl ?? DEFAULT_BASE_URL}/pricing/get`,
+		{
+			method: "POST",
+			headers: {
+				"Content-Type": "application/json",
+				"User-Agent": "domain-muse/1.0",
+			},
+			body: "{}",
+			signal: requestSignal(30000, signal),
+		},
+	);
+
+	if (!response.ok) {
+		throw new Error(`Porkbun HTTP ${response.status}`);
+	}
+
+	const data = (await response.json()) as PorkbunPricingResponse;
+	if (data.status !== "SUCCESS" || !data.pricing) {
+		throw new Error(data.message ?? "Porkbun pricing request failed");
+	}
+
+	const requestedTlds = tlds?.map((t) => t.toLowerCase().replace(/^\./, ""));
+	const results: TldPricing[] = [];
+
+	for (const [tld, price] of Object.entries(data.pricing)) {
+		if (requestedTlds && !requestedTlds.includes(tld)) continue;
+
+		const registerPrice = Number.parseFloat(price.registration ?? "");
+		if (Number.isNaN(registerPrice)) continue;
+		const renewPrice = Number.parseFloat(price.renewal ?? "");
+		const transferPrice = Number.parseFloat(price.transfer ?? "");
+
+		results.push({
+			tld,
+			registerPrice,
+			renewPrice: Number.isNaN(renewPrice) ? registerPrice : renewPrice,
+			transferPrice: Number.isNaN(transferPrice) ? undefined : transferPrice,
+			currency: "USD",
+		});
+	}
+
+	return results.sort((a, b) => a.registerPrice - b.registerPrice);
+}
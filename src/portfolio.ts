@@ -0,0 +1,71 @@
+import { getTldPricing, listDomains } from "./namecheap.js";
+import { parseDomain } from "./publicsuffix.js";
+import type { NamecheapConfig, OwnedDomain } from "./types.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Lists the domains in a Namecheap account with their renewal cost.
+ * Renewal prices come from the TLD price list; premium names renew at a
+ * per-name price Namecheap does not publish, so theirs is left unset.
+ * @param config - Namecheap API configuration
+ * @param signal - Optional signal that cancels the requests
+ * @returns Owned domains sorted by expiry date, soonest first
+ * @throws NamecheapApiError or Error if the domain list cannot be fetched
+ */
+export async function getPortfolio(
+	config: NamecheapConfig,
+	signal?: AbortSignal,
+): Promise<OwnedDomain[]> {
+	const domains = await listDomains(config, signal);
+	const suffixOf = (d: OwnedDomain) => parseDomain(d.domain)?.suffix;
+	const suffixes = [
+		...new Set(domains.map(suffixOf).filter((s) => s !== undefined)),
+	];
+
+	// Prices are a nice-to-have; the list is still useful without them
+	const pricing =
+		suffixes.length > 0
+			? await getTldPricing(config, suffixes, signal).catch(() => [])
+			: [];
+	const pricingByTld = new Map(pricing.map((p) => [p.tld, p]));
+
+	return domains
+		.map((d) => {
+			const price = d.isPremium
+				? undefined
+				: pricingByTld.get(suffixOf(d) ?? "");
+			return price
+				? { ...d, renewPrice: price.renewPrice, currency: price.currency }
+				: d;
+		})
+		.sort((a, b) => a.expiresAt.localeCompare(b.expiresAt));
+}
+
+/**
+ * Counts the whole days until a domain expires.
+ * @param domain - Owned domain
+ * @param now - Reference time in milliseconds since epoch (default: now)
+ * @returns Days until expiry, negative if already expired
+ */
+export function daysUntilExpiry(domain: OwnedDomain, now = Date.now()): number {
+	return Math.ceil((new Date(domain.expiresAt).getTime() - now) / DAY_MS);
+}
+
+/**
+ * Keeps the domains that expire within a time window.
+ * Domains that have already expired are kept, since most can still be renewed.
+ * @param domains - Owned domains
+ * @param withinMs - Window length in milliseconds
+ * @param now - Reference time in milliseconds since epoch (default: now)
+ * @returns Domains expiring before now + withinMs
+ */
+export function filterExpiring(
+	domains: OwnedDomain[],
+	withinMs: number,
+	now = Date.now(),
+): OwnedDomain[] {
+	return domains.filter(
+		(d) => new Date(d.expiresAt).getTime() <= now + withinMs,
+	);
+}
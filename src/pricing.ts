@@ -0,0 +1,45 @@
+import type { TldPricing } from "./types.js";
+
+/** Longest registration period registries allow */
+export const MAX_YEARS = 10;
+
+/**
+ * Rounds a price to whole cents.
+ * @param price - Price in currency units
+ * @returns Price rounded to two decimals
+ */
+function roundCents(price: number): number {
+	return Math.round(price * 100) / 100;
+}
+
+/**
+ * Computes the cost of registering a domain and keeping it for some years.
+ * Uses the cheaper of registering once for the whole period (when the
+ * registrar publishes that duration) or registering for a year and renewing
+ * yearly, so a promotional first year does not hide expensive renewals.
+ * @param pricing - TLD pricing
+ * @param years - Years of ownership (1-10)
+ * @returns Total cost in the pricing's currency
+ */
+export function getTotalCost(pricing: TldPricing, years: number): number {
+	const yearly = pricing.registerPrice + pricing.renewPrice * (years - 1);
+	const upfront = pricing.matrix?.register.find((p) => p.years === years);
+	return roundCents(upfront ? Math.min(upfront.price, yearly) : yearly);
+}
+
+/**
+ * Computes the cost of registering a premium domain and keeping it for some years.
+ * @param premiumPrice - First-year premium price
+ * @param renewPrice - Yearly renewal price (premium or standard)
+ * @param years - Years of ownership (1-10)
+ * @returns Total cost, or undefined if renewals are needed but not priced
+ */
+export function getPremiumTotalCost(
+	premiumPrice: number,
+	renewPrice: number | undefined,
+	years: number,
+): number | undefined {
+	if (years === 1) return premiumPrice;
+	if (renewPrice === undefined) return undefined;
+	return roundCents(premiumPrice + renewPrice * (years - 1));
+}
@@ -1,37 +1,231 @@
 import { createAnthropic } from "@ai-sdk/anthropic";
 import { createOpenAI } from "@ai-sdk/openai";
 import type { LanguageModel } from "ai";
+import type { LlmConfig, LlmProviderName } from "./types.js";
 
 /**
- * Gets the configured language model based on environment variables.
- * Checks providers in order: Anthropic, OpenAI, OpenRouter.
- * @returns Configured language model instance
- * @throws Error if no API key is configured
+ * Static settings for one LLM provider.
+ */
+interface ProviderInfo {
+	/** Environment variable holding the API key */
+	apiKeyEnv: string;
+	/** Whether requests fail without an API key */
+	requiresApiKey: boolean;
+	/** Model used when none is chosen */
+	defaultModel?: string;
+	/** Endpoint used when no base URL is given (SDK default if unset) */
+	defaultBaseUrl?: string;
+}
+
+/** Providers in auto-detection order */
+const PROVIDERS: Record<LlmProviderName, ProviderInfo> = {
+	anthropic: {
+		apiKeyEnv: "ANTHROPIC_API_KEY",
+		requiresApiKey: true,
+		defaultModel: "claude-sonnet-4-20250514",
+	},
+	openai: {
+		apiKeyEnv: "OPENAI_API_KEY",
+		requiresApiKey: true,
+		defaultModel: "gpt-4o",
+	},
+	openrouter: {
+		apiKeyEnv: "OPENROUTER_API_KEY",
+		requiresApiKey: true,
+		defaultModel: "anthropic/claude-sonnet-4",
+		defaultBaseUrl: "https://openrouter.ai/api/v1",
+	},
+	// Local servers usually ignore the key
+	"openai-compatible": {
+		apiKeyEnv: "DOMAIN_MUSE_API_KEY",
+		requiresApiKey: false,
+	},
+};
+
+/** Provider names, in auto-detection order */
+export const LLM_PROVIDERS = Object.keys(PROVIDERS) as LlmProviderName[];
+
+/**
+ * A language model selection with every default applied.
+ */
+export interface ResolvedLlmConfig {
+	provider: LlmProviderName;
+	model: string;
+	/** API endpoint, or undefined for the provider's SDK default */
+	baseUrl?: string;
+	apiKey?: string;
+}
+
+/**
+ * What is configured for one provider, as listed by the `models` command.
+ */
+export interface LlmProviderStatus {
+	provider: LlmProviderName;
+	/** Model used when none is chosen, if the provider has one */
+	defaultModel?: string;
+	/** Environment variable holding the API key */
+	apiKeyEnv: string;
+	/** Whether the API key variable is set */
+	hasApiKey: boolean;
+	/** Endpoint used when no base URL is given */
+	defaultBaseUrl?: string;
+}
+
+/**
+ * Checks whether a string names a supported provider.
+ * @param name - Provider name
+ * @returns True for one of LLM_PROVIDERS
+ */
+export function isLlmProvider(name: string): name is LlmProviderName {
+	return Object.hasOwn(PROVIDERS, name);
+}
+
+/**
+ * Reads the model selection from DOMAIN_MUSE_PROVIDER, DOMAIN_MUSE_MODEL and
+ * DOMAIN_MUSE_BASE_URL.
+ * @returns Settings for the variables that are set
+ */
+export function getLlmConfigFromEnv(): LlmConfig {
+	return {
+		provider:
+			(process.env.DOMAIN_MUSE_PROVIDER as LlmProviderName | undefined) ||
+			undefined,
+		model: process.env.DOMAIN_MUSE_MODEL || undefined,
+		baseUrl: process.env.DOMAIN_MUSE_BASE_URL || undefined,
+	};
+}
+
+/**
+ * Checks that a base URL is an absolute http(s) URL.
+ * @param value - URL to check
+ * @returns The URL without a trailing slash
+ * @throws Error if the URL is not http or https
  */
-export function getModel(): LanguageModel {
-	if (process.env.ANTHROPIC_API_KEY) {
-		const anthropic = createAnthropic({
-			apiKey: process.env.ANTHROPIC_API_KEY,
-		});
-		return anthropic("claude-sonnet-4-20250514");
+export function validateBaseUrl(value: string): string {
+	let url: URL;
+	try {
+		url = new URL(value);
+	} catch {
+		throw new Error(`Invalid base URL "${value}"`);
+	}
+	if (url.protocol !== "http:" && url.protocol !== "https:") {
+		throw new Error(`Base URL must use http or https: "${value}"`);
+	}
+	return value.replace(/\/+$/, "");
+}
+
+/**
+ * Resolves which provider and model to use.
+ * Each field is taken from the first layer that sets it: config, then the
+ * environment, then defaults (e.g., the config file). A layer that names a
+ * different provider than the one chosen does not contribute its model or
+ * base URL. Without any provider, a base URL selects openai-compatible;
+ * otherwise the first provider with an API key is used.
+ * @param config - Explicit settings (e.g., CLI options)
+ * @param defaults - Lowest-priority settings (e.g., from the config file)
+ * @returns Complete model selection
+ * @throws Error if the provider is unknown, the base URL or model is missing
+ * or invalid, or no API key is set
+ */
+export function resolveLlmConfig(
+	config: LlmConfig = {},
+	defaults: LlmConfig = {},
+): ResolvedLlmConfig {
+	const layers = [config, getLlmConfigFromEnv(), defaults];
+
+	let provider: string | undefined = layers.find((l) => l.provider)?.provider;
+	if (provider !== undefined && !isLlmProvider(provider)) {
+		throw new Error(
+			`Unknown provider "${provider}" (expected one of: ${LLM_PROVIDERS.join(", ")})`,
+		);
+	}
+	const fits = (layer: LlmConfig) =>
+		!layer.provider || layer.provider === provider;
+
+	const explicitBaseUrl = layers.find((l) => fits(l) && l.baseUrl)?.baseUrl;
+	if (!provider) {
+		provider = explicitBaseUrl
+			? "openai-compatible"
+			: LLM_PROVIDERS.find(
+					(name) =>
+						PROVIDERS[name].requiresApiKey &&
+						process.env[PROVIDERS[name].apiKeyEnv],
+				);
+	}
+	if (!provider || !isLlmProvider(provider)) {
+		throw new Error(
+			"No AI provider configured. Set one of: ANTHROPIC_API_KEY, OPENAI_API_KEY, or OPENROUTER_API_KEY, or choose a provider with --provider",
+		);
+	}
+
+	const info = PROVIDERS[provider];
+	const baseUrl = explicitBaseUrl
+		? validateBaseUrl(explicitBaseUrl)
+		: info.defaultBaseUrl;
+	if (!baseUrl && provider === "openai-compatible") {
+		throw new Error(
+			"The openai-compatible provider needs a base URL (--base-url or DOMAIN_MUSE_BASE_URL)",
+		);
 	}
 
-	if (process.env.OPENAI_API_KEY) {
-		const openai = createOpenAI({
-			apiKey: process.env.OPENAI_API_KEY,
-		});
-		return openai("gpt-4o");
+	const model =
+		layers.find((l) => fits(l) && l.model?.trim())?.model?.trim() ??
+		info.defaultModel;
+	if (!model) {
+		throw new Error(
+			`The ${provider} provider needs a model name (--model or DOMAIN_MUSE_MODEL)`,
+		);
 	}
 
-	if (process.env.OPENROUTER_API_KEY) {
-		const openrouter = createOpenAI({
-			apiKey: process.env.OPENROUTER_API_KEY,
-			baseURL: "https://openrouter.ai/api/v1",
-		});
-		return openrouter("anthropic/claude-sonnet-4");
+	const apiKey =
+		layers.find((l) => fits(l) && l.apiKey)?.apiKey ??
+		(process.env[info.apiKeyEnv] || undefined);
+	if (!apiKey && info.requiresApiKey) {
+		throw new Error(`Set ${info.apiKeyEnv} to use the ${provider} provider`);
 	}
 
-	throw new Error(
-		"No AI provider configured. Set one of: ANTHROPIC_API_KEY, OPENAI_API_KEY, or OPENROUTER_API_KEY",
-	);
+	return { provider, model, baseUrl, apiKey };
+}
+
+/**
+ * Lists every provider with its defaults and whether its API key is set.
+ * @returns Provider statuses in auto-detection order
+ */
+export function listLlmProviders(): LlmProviderStatus[] {
+	return LLM_PROVIDERS.map((provider) => {
+		const info = PROVIDERS[provider];
+		return {
+			provider,
+			defaultModel: info.defaultModel,
+			apiKeyEnv: info.apiKeyEnv,
+			hasApiKey: Boolean(process.env[info.apiKeyEnv]),
+			defaultBaseUrl: info.defaultBaseUrl,
+		};
+	});
+}
+
+/**
+ * Gets a language model for the given selection.
+ * @param config - Provider, model and endpoint (unset fields as in resolveLlmConfig)
+ * @returns Configured language model instance
+ * @throws Error if the selection is invalid or no API key is configured
+ */
+export function getModel(config: LlmConfig = {}): LanguageModel {
+	const { provider, model, baseUrl, apiKey } = resolveLlmConfig(config);
+
+	switch (provider) {
+		case "anthropic":
+			return createAnthropic({ apiKey, baseURL: baseUrl })(model);
+		case "openai":
+		case "openrouter":
+			return createOpenAI({ apiKey, baseURL: baseUrl })(model);
+		case "openai-compatible":
+			// Most local servers only implement chat completions, not the
+			// Responses API the OpenAI provider defaults to
+			return createOpenAI({
+				apiKey: apiKey ?? "unused",
+				baseURL: baseUrl,
+				name: "openai-compatible",
+			}).chat(model);
+	}
 }
@@ -0,0 +1,113 @@
+import { domainToASCII } from "node:url";
+import { ICANN_SUFFIX_RULES } from "./publicsuffixlist.js";
+
+// CentralNic SLDs are in the list's private section but are sold like registries
+const REGISTRY_SLD_RULES = ["br.com", "cn.com", "eu.com", "uk.com", "us.com"];
+
+const exactRules = new Set<string>();
+const wildcardRules = new Set<string>();
+const exceptionRules = new Set<string>();
+
+/**
+ * Adds rules in Public Suffix List syntax ("co.uk", "*.ck", "!www.ck").
+ * Use this to extend the bundled ICANN snapshot, e.g. with private-section
+ * suffixes. Unicode rules are stored in punycode, like the bundled ones.
+ * @param rules - PSL rules, case-insensitive
+ */
+export function addPublicSuffixes(rules: string[]): void {
+	for (const raw of rules) {
+		const rule = raw.trim().toLowerCase();
+		if (!rule || rule.startsWith("//")) continue;
+
+		const prefix = rule.startsWith("!")
+			? "!"
+			: rule.startsWith("*.")
+				? "*."
+				: "";
+		const name = rule.slice(prefix.length);
+		const ascii = domainToASCII(name) || name;
+
+		if (prefix === "!") {
+			exceptionRules.add(ascii);
+		} else if (prefix === "*.") {
+			wildcardRules.add(ascii);
+		} else {
+			exactRules.add(ascii);
+		}
+	}
+}
+
+addPublicSuffixes(ICANN_SUFFIX_RULES.split("\n"));
+addPublicSuffixes(REGISTRY_SLD_RULES);
+
+/**
+ * A domain split at its public suffix.
+ */
+export interface ParsedDomain {
+	/** Registrable domain (e.g., "example.co.uk") */
+	domain: string;
+	/** Registrable label without suffix (e.g., "example") */
+	name: string;
+	/** Public suffix without leading dot (e.g., "co.uk") */
+	suffix: string;
+	/** Top-level domain (e.g., "uk") */
+	tld: string;
+}
+
+/**
+ * Finds the public suffix of a hostname using the PSL algorithm:
+ * exception rules win, then the longest matching rule, then the last label.
+ * @param hostname - Hostname without trailing dot
+ * @returns Public suffix without leading dot
+ */
+export function getPublicSuffix(hostname: string): string {
+	const labels = hostname.toLowerCase().replace(/\.$/, "").split(".");
+
+	for (let i = 0; i < labels.length; i++) {
+		const candidate = labels.slice(i).join(".");
+		// "!city.kawasaki.jp" makes "kawasaki.jp" the suffix of city.kawasaki.jp
+		if (exceptionRules.has(candidate)) {
+			return labels.slice(i + 1).join(".");
+		}
+		if (exactRules.has(candidate)) return candidate;
+		// "*.ck" makes every "<label>.ck" a suffix
+		const parent = labels.slice(i + 1).join(".");
+		if (i < labels.length - 1 && wildcardRules.has(parent)) return candidate;
+	}
+
+	return labels[labels.length - 1] ?? "";
+}
+
+/**
+ * Splits a domain into registrable name and public suffix.
+ * Subdomains are dropped (e.g., "www.example.co.uk" → "example.co.uk").
+ * @param hostname - Domain name to parse
+ * @returns Parsed domain, or undefined if the name is itself a public suffix
+ */
+export function parseDomain(hostname: string): ParsedDomain | undefined {
+	const host = hostname.toLowerCase().replace(/\.$/, "");
+	const suffix = getPublicSuffix(host);
+	if (!suffix || host === suffix) return undefined;
+
+	const rest = host.slice(0, -(suffix.length + 1));
+	const name = rest.split(".").pop() ?? "";
+	if (!name) return undefined;
+
+	return {
+		domain: `${name}.${suffix}`,
+		name,
+		suffix,
+		tld: suffix.split(".").pop() ?? suffix,
+	};
+}
+
+/**
+ * Checks whether a string is a known public suffix.
+ * Single labels always are, per the PSL's implicit "*" rule.
+ * @param suffix - Suffix without leading dot (e.g., "co.uk")
+ * @returns True if the suffix is public
+ */
+export function isPublicSuffix(suffix: string): boolean {
+	const clean = suffix.toLowerCase().replace(/^\./, "");
+	return getPublicSuffix(clean) === clean;
+}
@@ -0,0 +1,151 @@
+import pLimit, { type LimitFunction } from "p-limit";
+import type { RateLimitOptions, RateLimiter } from "./types.js";
+import { sleep } from "./util.js";
+
+// Pause applied after a throttle response without Retry-After
+const DEFAULT_PENALTY_MS = 5000;
+// Never wait longer than this on a server-supplied Retry-After
+const MAX_RETRY_AFTER_MS = 60000;
+// Throttled hosts never drop below this fraction of the configured rate
+const MIN_RATE_FACTOR = 0.1;
+// Rate recovered per successful request, as a fraction of the configured rate
+const RECOVERY_FACTOR = 0.05;
+
+/**
+ * Thrown when a server signals rate limiting (HTTP 429, WHOIS quota text).
+ */
+export class RateLimitError extends Error {
+	/** Server-requested wait before retrying, in milliseconds */
+	readonly retryAfterMs?: number;
+
+	constructor(message: string, retryAfterMs?: number) {
+		super(message);
+		this.name = "RateLimitError";
+		this.retryAfterMs = retryAfterMs;
+	}
+}
+
+/**
+ * Token bucket state for one host.
+ */
+interface HostState {
+	/** Tokens currently available */
+	tokens: number;
+	/** Last refill time (ms since epoch) */
+	refilledAt: number;
+	/** Current refill rate in requests per second */
+	rate: number;
+	/** No requests before this time (ms since epoch) */
+	pausedUntil: number;
+	/** Per-host concurrency limit */
+	limit: LimitFunction;
+}
+
+/**
+ * Parses an HTTP Retry-After header (delta-seconds or HTTP date).
+ * @param value - Header value
+ * @returns Wait in milliseconds, capped at 60 seconds, or undefined if unparseable
+ */
+export function parseRetryAfter(value: string | null): number | undefined {
+	if (!value) return undefined;
+
+	const seconds = Number(value.trim());
+	const ms = Number.isFinite(seconds)
+		? seconds * 1000
+		: Date.parse(value) - Date.now();
+
+	if (Number.isNaN(ms)) return undefined;
+	return Math.min(Math.max(ms, 0), MAX_RETRY_AFTER_MS);
+}
+
+/**
+ * Creates a rate limiter with one token bucket per host.
+ * Throttled hosts slow down multiplicatively and recover gradually on success.
+ * @param defaults - Protocol defaults for rate, burst and per-host concurrency
+ * @param overrides - User-supplied values (undefined fields keep the default)
+ * @returns Rate limiter
+ */
+export function createRateLimiter(
+	defaults: Required<RateLimitOptions>,
+	overrides: RateLimitOptions = {},
+): RateLimiter {
+	const options = {
+		requestsPerSecond:
+			overrides.requestsPerSecond ?? defaults.requestsPerSecond,
+		burst: overrides.burst ?? defaults.burst,
+		concurrency: overrides.concurrency ?? defaults.concurrency,
+	};
+	const hosts = new Map<string, HostState>();
+	const minRate = options.requestsPerSecond * MIN_RATE_FACTOR;
+
+	const getState = (host: string): HostState => {
+		let state = hosts.get(host);
+		if (!state) {
+			state = {
+				tokens: options.burst,
+				refilledAt: Date.now(),
+				rate: options.requestsPerSecond,
+				pausedUntil: 0,
+				limit: pLimit(options.concurrency),
+			};
+			hosts.set(host, state);
+		}
+		return state;
+	};
+
+	const acquire = async (
+		state: HostState,
+		signal?: AbortSignal,
+	): Promise<void> => {
+		for (;;) {
+			signal?.throwIfAborted();
+			const now = Date.now();
+			if (state.pausedUntil > now) {
+				await sleep(state.pausedUntil - now, signal);
+				continue;
+			}
+
+			const elapsed = (now - state.refilledAt) / 1000;
+			state.tokens = Math.min(
+				options.burst,
+				state.tokens + elapsed * state.rate,
+			);
+			state.refilledAt = now;
+
+			if (state.tokens >= 1) {
+				state.tokens -= 1;
+				return;
+			}
+			await sleep(((1 - state.tokens) / state.rate) * 1000, signal);
+		}
+	};
+
+	return {
+		run<T>(
+			host: string,
+			fn: () => Promise<T>,
+			signal?: AbortSignal,
+		): Promise<T> {
+			const state = getState(host.toLowerCase());
+			return state.limit(async () => {
+				await acquire(state, signal);
+				try {
+					const result = await fn();
+					state.rate = Math.min(
+						options.requestsPerSecond,
+						state.rate + options.requestsPerSecond * RECOVERY_FACTOR,
+					);
+					return result;
+				} catch (e) {
+					if (e instanceof RateLimitError) {
+						state.rate = Math.max(minRate, state.rate / 2);
+						state.tokens = 0;
+						state.pausedUntil =
+							Date.now() + (e.retryAfterMs ?? DEFAULT_PENALTY_MS);
+					}
+					throw e;
+				}
+			});
+		},
+	};
+}
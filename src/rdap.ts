@@ -1,21 +1,34 @@
-import { execFile } from "node:child_process";
-import { promisify } from "node:util";
-import pLimit from "p-limit";
-import type { DomainCheckResult } from "./types.js";
-
-const execFileAsync = promisify(execFile);
-
-// Domain validation regex - basic but catches injection attempts
-const DOMAIN_REGEX =
-	/^[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?(\.[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?)*$/i;
-
-// Concurrency limits
-const RDAP_CONCURRENCY = 10;
-const WHOIS_CONCURRENCY = 3; // WHOIS servers are more sensitive to rate limiting
-
-// Retry configuration
-const MAX_RETRIES = 2;
-const RETRY_DELAY_MS = 1000;
+import { CACHE_TTL_MS, getCached, setCached } from "./cache.js";
+import { getIdnForms, toAscii, toUnicode } from "./idn.js";
+import { parseDomain } from "./publicsuffix.js";
+import {
+	RateLimitError,
+	createRateLimiter,
+	parseRetryAfter,
+} from "./ratelimit.js";
+import type {
+	CacheOptions,
+	CheckContext,
+	DomainCheckResult,
+	RateLimitOptions,
+	RateLimiter,
+	RegistrationDetails,
+} from "./types.js";
+import {
+	abortMessage,
+	isValidDomain,
+	requestSignal,
+	withDeadline,
+	withRetry,
+} from "./util.js";
+import { checkDomainsViaWhois } from "./whois.js";
+
+// Per-host rate limit - Verisign and Identity Digital throttle bursts
+const RDAP_RATE_LIMIT: Required<RateLimitOptions> = {
+	requestsPerSecond: 5,
+	burst: 5,
+	concurrency: 5,
+};
 
 // Reliable RDAP servers - verified to work
 const RDAP_SERVERS: Record<string, string> = {
@@ -30,100 +43,39 @@ const RDAP_SERVERS: Record<string, string> = {
 	studio: "https://rdap.identitydigital.services/rdap",
 };
 
-// WHOIS servers for TLDs without reliable RDAP
-const WHOIS_SERVERS: Record<string, string> = {
-	io: "whois.nic.io",
-	co: "whois.nic.co",
-	me: "whois.nic.me",
-	tv: "whois.nic.tv",
-	cc: "whois.nic.cc",
-	app: "whois.nic.google",
-};
-
-// Patterns indicating domain is available (expanded)
-const WHOIS_AVAILABLE_PATTERNS = [
-	// Common "not found" patterns
-	/^no match/im,
-	/^not found/im,
-	/^no data found/im,
-	/^no entries found/im,
-	/^nothing found/im,
-	/domain not found/i,
-	/no match for/i,
-	/not registered/i,
-	/no such domain/i,
-	/object not found/i,
-	/query didn't return any result/i,
-	// Status-based patterns
-	/status:\s*available/i,
-	/status:\s*free/i,
-	/domain status:\s*no object found/i,
-	// Registrar-specific patterns
-	/the queried object does not exist/i,
-	/no information available/i,
-	/domain you requested is not known/i,
-	/this domain is available/i,
-	/is available for registration/i,
-];
-
 const IANA_BOOTSTRAP = "https://data.iana.org/rdap/dns.json";
+const BOOTSTRAP_CACHE_NAMESPACE = "rdap-bootstrap";
 
 let bootstrapCache: Record<string, string> | null = null;
 
-/**
- * Validates domain name format to prevent injection attacks.
- * @param domain - Domain name to validate
- * @returns True if domain format is valid
- */
-function isValidDomain(domain: string): boolean {
-	if (!domain || domain.length > 253) return false;
-	return DOMAIN_REGEX.test(domain);
-}
-
-/**
- * Delays execution for the specified duration.
- * @param ms - Milliseconds to sleep
- */
-function sleep(ms: number): Promise<void> {
-	return new Promise((resolve) => setTimeout(resolve, ms));
-}
-
-/**
- * Retries an async function with exponential backoff.
- * @param fn - Function to retry
- * @param retries - Maximum number of retries (default: MAX_RETRIES)
- * @returns Result of the function
- * @throws Last error if all retries fail
- */
-async function withRetry<T>(
-	fn: () => Promise<T>,
-	retries = MAX_RETRIES,
-): Promise<T> {
-	let lastError: Error | undefined;
-	for (let attempt = 0; attempt <= retries; attempt++) {
-		try {
-			return await fn();
-		} catch (e) {
-			lastError = e instanceof Error ? e : new Error(String(e));
-			if (attempt < retries) {
-				await sleep(RETRY_DELAY_MS * (attempt + 1));
-			}
-		}
-	}
-	throw lastError;
-}
-
 /**
  * Fetches RDAP bootstrap servers from IANA, with fallback to hardcoded list.
- * Results are cached for subsequent calls.
+ * Results are cached in memory, and on disk when a cache is given.
+ * @param cache - Optional on-disk cache options
+ * @param signal - Optional signal that cancels the download
  * @returns Map of TLD to RDAP server URL
  */
-async function getBootstrapServers(): Promise<Record<string, string>> {
+async function getBootstrapServers(
+	cache?: CacheOptions,
+	signal?: AbortSignal,
+): Promise<Record<string, string>> {
 	if (bootstrapCache) return bootstrapCache;
 
+	if (cache && !cache.refresh) {
+		const stored = await getCached<Record<string, string>>(
+			BOOTSTRAP_CACHE_NAMESPACE,
+			[IANA_BOOTSTRAP],
+		);
+		const servers = stored.get(IANA_BOOTSTRAP);
+		if (servers) {
+			bootstrapCache = servers;
+			return servers;
+		}
+	}
+
 	try {
 		const response = await fetch(IANA_BOOTSTRAP, {
-			signal: AbortSignal.timeout(5000),
+			signal: requestSignal(5000, signal),
 		});
 
 		if (!response.ok) return RDAP_SERVERS;
@@ -143,6 +95,11 @@ async function getBootstrapServers(): Promise<Record<string, string>> {
 		}
 
 		bootstrapCache = servers;
+		if (cache) {
+			await setCached(BOOTSTRAP_CACHE_NAMESPACE, [
+				{ key: IANA_BOOTSTRAP, value: servers, ttlMs: CACHE_TTL_MS.bootstrap },
+			]);
+		}
 		return servers;
 	} catch {
 		return RDAP_SERVERS;
@@ -150,195 +107,315 @@ async function getBootstrapServers(): Promise<Record<string, string>> {
 }
 
 /**
- * Checks domain availability via WHOIS protocol.
- * @param domain - Domain name to check
- * @returns Domain check result with availability status
+ * Lists the TLDs in the IANA RDAP bootstrap file.
+ * Falls back to the built-in RDAP server list when the file cannot be loaded.
+ * @param cache - Optional on-disk cache options
+ * @param signal - Optional signal that cancels the download
+ * @returns TLDs without leading dot, sorted, IDN TLDs in punycode
  */
-async function checkViaWhois(domain: string): Promise<DomainCheckResult> {
-	const parts = domain.split(".");
-	const tld = parts[parts.length - 1]?.toLowerCase();
-
-	if (!tld) {
-		return {
-			domain,
-			available: false,
-			isPremium: false,
-			error: "Invalid domain",
-		};
-	}
-
-	const whoisServer = WHOIS_SERVERS[tld];
-
-	try {
-		// Use execFile with args array to prevent command injection
-		const args = whoisServer ? ["-h", whoisServer, domain] : [domain];
+export async function listRdapTlds(
+	cache?: CacheOptions,
+	signal?: AbortSignal,
+): Promise<string[]> {
+	return Object.keys(await getBootstrapServers(cache, signal)).sort();
+}
 
-		const { stdout } = await withRetry(() =>
-			execFileAsync("whois", args, { timeout: 15000 }),
-		);
+/**
+ * Subset of an RDAP domain object (RFC 9083) used for registration details.
+ */
+interface RdapDomain {
+	status?: string[];
+	events?: Array<{ eventAction?: string; eventDate?: string }>;
+	entities?: Array<{ roles?: string[]; vcardArray?: [string, unknown[]] }>;
+	nameservers?: Array<{ ldhName?: string }>;
+}
 
-		const isAvailable = WHOIS_AVAILABLE_PATTERNS.some((pattern) =>
-			pattern.test(stdout),
-		);
+/**
+ * Converts an RDAP status (RFC 8056 mapping) to its EPP code.
+ * @param status - RDAP status, e.g. "client hold"
+ * @returns EPP status code, e.g. "clientHold"
+ */
+function toEppStatus(status: string): string {
+	return status
+		.trim()
+		.toLowerCase()
+		.replace(/\s+(\w)/g, (_, c: string) => c.toUpperCase());
+}
 
-		return { domain, available: isAvailable, isPremium: false };
-	} catch (e) {
-		const error = e instanceof Error ? e.message : "WHOIS lookup failed";
-		return { domain, available: false, isPremium: false, error };
+/**
+ * Extracts the formatted name ("fn") from a jCard (RFC 7095).
+ * @param vcardArray - jCard array from an RDAP entity
+ * @returns Formatted name, or undefined if absent
+ */
+function vcardName(
+	vcardArray: [string, unknown[]] | undefined,
+): string | undefined {
+	for (const property of vcardArray?.[1] ?? []) {
+		if (Array.isArray(property) && property[0] === "fn") {
+			const value = property[3];
+			return typeof value === "string" && value ? value : undefined;
+		}
 	}
+	return undefined;
+}
+
+/**
+ * Parses registration details from an RDAP domain response.
+ * @param data - Parsed RDAP domain object
+ * @returns Registrar, lifecycle dates, EPP status codes and nameservers
+ */
+function parseRdapDetails(data: RdapDomain): RegistrationDetails {
+	const eventDate = (action: string) =>
+		data.events?.find((e) => e.eventAction === action)?.eventDate;
+	const registrar = data.entities?.find((e) => e.roles?.includes("registrar"));
+
+	return {
+		registrar: vcardName(registrar?.vcardArray),
+		createdAt: eventDate("registration"),
+		expiresAt: eventDate("expiration"),
+		updatedAt: eventDate("last changed"),
+		eppStatus: (data.status ?? []).map(toEppStatus),
+		nameservers: (data.nameservers ?? [])
+			.map((ns) => ns.ldhName?.toLowerCase())
+			.filter((ns): ns is string => Boolean(ns)),
+	};
 }
 
 /**
  * Checks domain availability via RDAP protocol.
- * @param domain - Domain name to check
+ * HTTP 429 throttles the server's host and is retried after Retry-After.
+ * @param domain - Domain name to check, as given by the caller
+ * @param asciiDomain - Punycode form sent to the server
  * @param rdapServer - RDAP server URL for the domain's TLD
+ * @param limiter - Per-host rate limiter
+ * @param signal - Optional signal that cancels the lookup
  * @returns Domain check result with availability status
  */
 async function checkViaRdap(
 	domain: string,
+	asciiDomain: string,
 	rdapServer: string,
+	limiter: RateLimiter,
+	signal?: AbortSignal,
 ): Promise<DomainCheckResult> {
+	const host = new URL(rdapServer).host;
 	try {
-		const result = await withRetry(async () => {
-			const url = `${rdapServer}/domain/${domain}`;
-			const response = await fetch(url, {
-				signal: AbortSignal.timeout(10000),
-				headers: { Accept: "application/rdap+json" },
-			});
-
-			if (response.status === 404) {
-				return { domain, available: true, isPremium: false };
-			}
-
-			if (response.status === 200) {
-				return { domain, available: false, isPremium: false };
-			}
-
-			throw new Error(`RDAP returned ${response.status}`);
-		});
+		const result = await withRetry(
+			() =>
+				limiter.run<DomainCheckResult>(
+					host,
+					async () => {
+						const url = `${rdapServer}/domain/${asciiDomain}`;
+						const response = await fetch(url, {
+							signal: requestSignal(10000, signal),
+							headers: { Accept: "application/rdap+json" },
+						});
+
+						if (response.status === 429) {
+							throw new RateLimitError(
+								`RDAP rate limited by ${host}`,
+								parseRetryAfter(response.headers.get("retry-after")),
+							);
+						}
+
+						if (response.status === 404) {
+							return {
+								domain,
+								status: "available",
+								available: true,
+								isPremium: false,
+							};
+						}
+
+						if (response.status === 200) {
+							let details: RegistrationDetails | undefined;
+							try {
+								details = parseRdapDetails(
+									(await response.json()) as RdapDomain,
+								);
+							} catch {
+								// A 200 means registered even if the body is unusable
+							}
+							return {
+								domain,
+								status: "registered",
+								available: false,
+								isPremium: false,
+								details,
+							};
+						}
+
+						throw new Error(`RDAP returned ${response.status}`);
+					},
+					signal,
+				),
+			undefined,
+			signal,
+		);
 		return result;
 	} catch (e) {
-		const error = e instanceof Error ? e.message : "Unknown error";
-		return { domain, available: false, isPremium: false, error };
+		const error = signal?.aborted
+			? abortMessage(signal)
+			: e instanceof Error
+				? e.message
+				: "Unknown error";
+		return {
+			domain,
+			status: "unknown",
+			available: false,
+			isPremium: false,
+			error,
+		};
 	}
 }
 
 /**
- * Extended domain check result that tracks WHOIS fallback need.
- */
-interface RdapCheckResult extends DomainCheckResult {
-	/** True if RDAP failed and WHOIS fallback is needed */
-	needsWhoisFallback?: boolean;
-}
-
-/**
- * Attempts RDAP lookup, marking domains that need WHOIS fallback.
+ * Checks a single domain via RDAP, resolving the server from the bootstrap.
  * @param domain - Domain name to check
- * @returns Check result with fallback flag if RDAP unavailable/failed
+ * @param servers - Map of TLD to RDAP server URL
+ * @param limiter - Per-host rate limiter
+ * @param signal - Optional signal that cancels the lookup
+ * @returns Check result, with error set if no RDAP server exists or lookup failed
  */
-async function checkViaRdapOnly(domain: string): Promise<RdapCheckResult> {
+async function checkViaRdapOnly(
+	domain: string,
+	servers: Record<string, string>,
+	limiter: RateLimiter,
+	signal?: AbortSignal,
+): Promise<DomainCheckResult> {
 	// Validate domain format
 	if (!isValidDomain(domain)) {
 		return {
 			domain,
+			status: "unknown",
 			available: false,
 			isPremium: false,
 			error: "Invalid domain format",
 		};
 	}
 
-	const parts = domain.split(".");
-	const tld = parts[parts.length - 1]?.toLowerCase();
+	// Registries are queried with the punycode form of IDNs
+	const asciiDomain = toAscii(domain);
+	const parsed = parseDomain(asciiDomain);
+
+	if (!parsed) {
+		return {
+			domain,
+			status: "unknown",
+			available: false,
+			isPremium: false,
+			error: "Invalid domain: no name below the public suffix",
+		};
+	}
 
-	if (!tld) {
+	if (parsed.domain !== asciiDomain) {
 		return {
 			domain,
+			status: "unknown",
 			available: false,
 			isPremium: false,
-			error: "Invalid domain",
+			error: `Not a registrable domain (did you mean ${toUnicode(parsed.domain)}?)`,
 		};
 	}
 
-	const servers = await getBootstrapServers();
-	const rdapServer = servers[tld];
+	// Second-level registries (co.uk) are served by their TLD's RDAP server
+	const rdapServer = servers[parsed.suffix] ?? servers[parsed.tld];
 
 	if (!rdapServer) {
-		// No RDAP server, needs WHOIS
 		return {
 			domain,
+			status: "unknown",
 			available: false,
 			isPremium: false,
-			needsWhoisFallback: true,
+			error: `No RDAP server for .${parsed.suffix}`,
 		};
 	}
 
-	const result = await checkViaRdap(domain, rdapServer);
-	if (result.error) {
-		// RDAP failed, mark for WHOIS fallback
-		return { ...result, needsWhoisFallback: true };
-	}
-	return result;
+	return checkViaRdap(domain, asciiDomain, rdapServer, limiter, signal);
 }
 
 /**
- * Checks availability of multiple domains using RDAP with WHOIS fallback.
- * Uses two-pass approach: RDAP first (10 concurrent), then WHOIS for failures (3 concurrent).
+ * Creates an RDAP rate limiter with default per-host limits.
+ * @param overrides - User-supplied limits
+ * @returns Rate limiter for RDAP servers
+ */
+export function createRdapLimiter(overrides?: RateLimitOptions): RateLimiter {
+	return createRateLimiter(RDAP_RATE_LIMIT, overrides);
+}
+
+/**
+ * Checks availability of multiple domains via RDAP only.
+ * Requests are rate limited per RDAP host (default: 5 req/s, 5 concurrent).
+ * Domains whose TLD has no RDAP server come back with an error, as do
+ * lookups cut short by the context's signal or deadline.
  * @param domains - Array of domain names to check
+ * @param context - Cache, rate limits or limiters, result callback, signal and deadline
  * @returns Array of check results in same order as input
  */
-export async function checkDomains(
+export async function checkDomainsViaRdap(
 	domains: string[],
+	context: CheckContext = {},
 ): Promise<DomainCheckResult[]> {
-	// Separate domains by lookup method for different concurrency limits
-	const rdapDomains: string[] = [];
-	const whoisOnlyDomains: string[] = [];
-	const servers = await getBootstrapServers();
-
-	for (const domain of domains) {
-		const tld = domain.split(".").pop()?.toLowerCase();
-		if (tld && servers[tld]) {
-			rdapDomains.push(domain);
-		} else {
-			whoisOnlyDomains.push(domain);
-		}
-	}
-
-	const rdapLimit = pLimit(RDAP_CONCURRENCY);
-	const whoisLimit = pLimit(WHOIS_CONCURRENCY);
-
-	// First pass: try RDAP for domains with RDAP servers
-	const rdapResults = await Promise.all(
-		rdapDomains.map((domain) => rdapLimit(() => checkViaRdapOnly(domain))),
+	const signal = withDeadline(context.signal, context.deadline);
+	const servers = await getBootstrapServers(context.cache, signal);
+	const limiter =
+		context.limiters?.rdap ?? createRdapLimiter(context.rateLimits?.rdap);
+	return Promise.all(
+		domains.map(async (domain) => {
+			const result = await checkViaRdapOnly(domain, servers, limiter, signal);
+			context.onResult?.(result);
+			return result;
+		}),
 	);
+}
 
-	// Collect domains that need WHOIS fallback (RDAP failed or no RDAP server)
-	const needsWhoisFallback: string[] = [];
-	const successfulRdapResults: DomainCheckResult[] = [];
+/**
+ * Looks up a single domain's RDAP record, including registration details.
+ * @param domain - Domain name to look up
+ * @param context - Cache, rate limits or limiters, signal and deadline
+ * @returns Check result with details set for registered domains
+ */
+export async function getDomainInfo(
+	domain: string,
+	context: CheckContext = {},
+): Promise<DomainCheckResult> {
+	const signal = withDeadline(context.signal, context.deadline);
+	const servers = await getBootstrapServers(context.cache, signal);
+	const limiter =
+		context.limiters?.rdap ?? createRdapLimiter(context.rateLimits?.rdap);
+	const result = await checkViaRdapOnly(domain, servers, limiter, signal);
+	const forms = getIdnForms(domain);
+	return forms ? { ...result, ...forms } : result;
+}
 
-	for (const result of rdapResults) {
-		if (result.needsWhoisFallback) {
-			needsWhoisFallback.push(result.domain);
-		} else {
-			successfulRdapResults.push(result);
-		}
-	}
+/**
+ * Checks availability of multiple domains using RDAP with WHOIS fallback.
+ * Uses two-pass approach: RDAP first, then WHOIS for failures, each rate limited per host.
+ * @param domains - Array of domain names to check
+ * @returns Array of check results in same order as input
+ */
+export async function checkDomains(
+	domains: string[],
+): Promise<DomainCheckResult[]> {
+	// First pass: RDAP (domains without an RDAP server come back with an error)
+	const rdapResults = await checkDomainsViaRdap(domains);
 
 	// Second pass: WHOIS for domains without RDAP and failed RDAP domains
-	// All WHOIS requests go through whoisLimit for proper rate limiting
-	const allWhoisDomains = [...whoisOnlyDomains, ...needsWhoisFallback];
-	const whoisResults = await Promise.all(
-		allWhoisDomains.map((domain) => whoisLimit(() => checkViaWhois(domain))),
-	);
-
-	// Combine results
-	const allResults = [...successfulRdapResults, ...whoisResults];
+	const needsWhoisFallback = rdapResults
+		.filter((r) => r.error)
+		.map((r) => r.domain);
+	const whoisResults = await checkDomainsViaWhois(needsWhoisFallback);
 
 	// Reorder results to match input order
-	const resultMap = new Map(allResults.map((r) => [r.domain, r]));
+	const resultMap = new Map(rdapResults.map((r) => [r.domain, r]));
+	for (const r of whoisResults) {
+		resultMap.set(r.domain, r);
+	}
 	return domains.map(
 		(d) =>
 			resultMap.get(d) ?? {
 				domain: d,
+				status: "unknown",
 				available: false,
 				isPremium: false,
 				error: "Result missing",
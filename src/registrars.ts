@@ -0,0 +1,167 @@
+import { getTldPricing as getCloudflarePricing } from "./cloudflare.js";
+import { getTldPricing as getGandiPricing } from "./gandi.js";
+import { getTldPricing as getNamecheapPricing } from "./namecheap.js";
+import { getTldPricing as getPorkbunPricing } from "./porkbun.js";
+import { getTotalCost } from "./pricing.js";
+import type {
+	RegistrarAdapter,
+	RegistrarConfig,
+	RegistrarPricing,
+} from "./types.js";
+
+// Prices in other currencies are listed but never picked as cheapest
+const COMPARISON_CURRENCY = "USD";
+
+const registry = new Map<string, RegistrarAdapter>();
+
+/**
+ * Result of comparing TLD prices across registrars.
+ */
+export interface PricingComparison {
+	/** Every price quoted, sorted by TLD then registration price */
+	prices: RegistrarPricing[];
+	/** Registrars whose price lookup failed */
+	errors: Array<{ registrar: string; error: string }>;
+}
+
+/**
+ * Registers a registrar adapter, replacing any existing one with the same name.
+ * @param adapter - Adapter to register
+ */
+export function registerRegistrar(adapter: RegistrarAdapter): void {
+	registry.set(adapter.name.toLowerCase(), adapter);
+}
+
+/**
+ * Looks up a registered registrar adapter by name.
+ * @param name - Adapter name (case-insensitive)
+ * @returns The adapter, or undefined if not registered
+ */
+export function getRegistrar(name: string): RegistrarAdapter | undefined {
+	return registry.get(name.toLowerCase());
+}
+
+/**
+ * Lists all registered registrar adapters.
+ * @returns Registered adapters in registration order
+ */
+export function listRegistrars(): RegistrarAdapter[] {
+	return [...registry.values()];
+}
+
+/**
+ * Fetches TLD prices from several registrars in parallel.
+ * A failing registrar is reported in errors and does not fail the comparison.
+ * @param tlds - TLDs or public suffixes without leading dot
+ * @param config - Registrar credentials
+ * @param options - Registrar names to ask (default: every configured adapter) and an abort signal
+ * @returns Quoted prices and per-registrar errors
+ * @throws Error if a requested registrar is not registered
+ */
+export async function comparePricing(
+	tlds: string[],
+	config: RegistrarConfig,
+	options: { registrars?: string[]; signal?: AbortSignal } = {},
+): Promise<PricingComparison> {
+	const adapters = options.registrars
+		? options.registrars.map((name) => {
+				const adapter = getRegistrar(name);
+				if (!adapter) throw new Error(`Unknown registrar "${name}"`);
+				return adapter;
+			})
+		: listRegistrars().filter((a) => a.isConfigured(config));
+
+	const prices: RegistrarPricing[] = [];
+	const errors: PricingComparison["errors"] = [];
+
+	await Promise.all(
+		adapters.map(async (adapter) => {
+			if (!adapter.isConfigured(config)) {
+				errors.push({
+					registrar: adapter.name,
+					error: "Credentials not configured",
+				});
+				return;
+			}
+			try {
+				const quoted = await adapter.getPricing(tlds, config, options.signal);
+				for (const p of quoted) prices.push({ ...p, registrar: adapter.name });
+			} catch (e) {
+				errors.push({
+					registrar: adapter.name,
+					error: e instanceof Error ? e.message : "Pricing lookup failed",
+				});
+			}
+		}),
+	);
+
+	prices.sort(
+		(a, b) => a.tld.localeCompare(b.tld) || a.registerPrice - b.registerPrice,
+	);
+	return { prices, errors };
+}
+
+/**
+ * Picks the registrar with the lowest cost of ownership for each TLD.
+ * @param prices - Prices from comparePricing
+ * @param years - Years of ownership to compare (default: 1, registration price only)
+ * @returns Map of TLD to its cheapest quote
+ */
+export function findCheapest(
+	prices: RegistrarPricing[],
+	years = 1,
+): Map<string, RegistrarPricing> {
+	const cheapest = new Map<string, RegistrarPricing>();
+	for (const price of prices) {
+		if (price.currency !== COMPARISON_CURRENCY) continue;
+		const current = cheapest.get(price.tld);
+		if (!current || getTotalCost(price, years) < getTotalCost(current, years)) {
+			cheapest.set(price.tld, price);
+		}
+	}
+	return cheapest;
+}
+
+registerRegistrar({
+	name: "namecheap",
+	description: "Namecheap users.getPricing API (requires credentials)",
+	isConfigured: (config) => config.namecheap !== undefined,
+	getPricing: async (tlds, config, signal) => {
+		if (!config.namecheap) {
+			throw new Error("Namecheap credentials not configured");
+		}
+		return getNamecheapPricing(config.namecheap, tlds, signal);
+	},
+});
+
+registerRegistrar({
+	name: "porkbun",
+	description: "Porkbun public pricing API",
+	isConfigured: () => true,
+	getPricing: (tlds, config, signal) =>
+		getPorkbunPricing(config.porkbun, tlds, signal),
+});
+
+registerRegistrar({
+	name: "gandi",
+	description: "Gandi v5 domain check API (requires a personal access token)",
+	isConfigured: (config) => config.gandi !== undefined,
+	getPricing: async (tlds, config, signal) => {
+		if (!config.gandi) {
+			throw new Error("Gandi credentials not configured");
+		}
+		return getGandiPricing(config.gandi, tlds, signal);
+	},
+});
+
+registerRegistrar({
+	name: "cloudflare",
+	description: "Cloudflare Registrar at-cost pricing (requires an API token)",
+	isConfigured: (config) => config.cloudflare !== undefined,
+	getPricing: async (tlds, config, signal) => {
+		if (!config.cloudflare) {
+			throw new Error("Cloudflare credentials not configured");
+		}
+		return getCloudflarePricing(config.cloudflare, tlds, signal);
+	},
+});
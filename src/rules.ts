@@ -0,0 +1,271 @@
+import type { DomainIdea, GenerateOptions, GenerationResult } from "./types.js";
+import { hashString, seededRandom } from "./util.js";
+
+/** Prefixes combined with seed words (e.g., "gethabit") */
+export const NAME_PREFIXES = ["get", "try", "use", "go", "my", "hey", "hi"];
+
+/** Suffixes combined with seed words (e.g., "habitly", "habithub") */
+export const NAME_SUFFIXES = [
+	"ly",
+	"ify",
+	"hub",
+	"lab",
+	"io",
+	"app",
+	"hq",
+	"base",
+	"kit",
+];
+
+// Filler words that make poor seeds
+const STOPWORDS = new Set([
+	"a",
+	"an",
+	"and",
+	"at",
+	"by",
+	"for",
+	"from",
+	"in",
+	"of",
+	"on",
+	"or",
+	"the",
+	"to",
+	"with",
+	"your",
+]);
+
+// Names shorter or longer than this read badly as blends or abbreviations
+const MIN_COINED_LENGTH = 4;
+const MAX_COINED_LENGTH = 12;
+
+/**
+ * Checks whether a letter is a vowel ("y" counts).
+ * @param char - Single character
+ * @returns True for a, e, i, o, u and y
+ */
+function isVowel(char: string | undefined): boolean {
+	return char !== undefined && "aeiouy".includes(char);
+}
+
+/**
+ * Splits a concept into seed words, dropping filler words and duplicates.
+ * @param concept - Free-text concept (e.g., "habit tracking for teams")
+ * @returns Lower-case seed words in order of appearance
+ */
+export function extractSeedWords(concept: string): string[] {
+	const words = concept.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+	return [...new Set(words.filter((w) => w.length >= 2 && !STOPWORDS.has(w)))];
+}
+
+/**
+ * Joins a word and a suffix, smoothing the seam ("code" + "ify" = "codify").
+ * @param word - Seed word
+ * @param suffix - One of NAME_SUFFIXES
+ * @returns Combined name, or undefined if the pair reads badly
+ */
+function addSuffix(word: string, suffix: string): string | undefined {
+	if (suffix === "ly" && /[ly]$/.test(word)) return undefined;
+	if (suffix === "ify" && isVowel(word[word.length - 1])) {
+		return `${word.slice(0, -1)}ify`;
+	}
+	// "taskkit" -> "taskit"
+	if (word[word.length - 1] === suffix[0]) return word + suffix.slice(1);
+	return word + suffix;
+}
+
+/**
+ * Builds prefix and suffix names (e.g., "gethabit", "habitly").
+ * @param words - Seed words
+ * @returns Two-word names
+ */
+function affixNames(words: string[]): DomainIdea[] {
+	const ideas: DomainIdea[] = [];
+	for (const word of words) {
+		for (const prefix of NAME_PREFIXES) {
+			ideas.push({ name: prefix + word, wordCount: 2 });
+		}
+		for (const suffix of NAME_SUFFIXES) {
+			const name = addSuffix(word, suffix);
+			if (name) ideas.push({ name, wordCount: 2 });
+		}
+	}
+	return ideas;
+}
+
+/**
+ * Blends two words into portmanteaus.
+ * Words that overlap are merged on the overlap ("habit" + "itinerary" =
+ * "habitinerary"). Otherwise the start of one word, cut before or after its
+ * first vowel sound, is joined to the other from its first vowel ("spoon" +
+ * "fork" = "spork", "habit" + "flow" = "habow").
+ * @param a - Word that starts the blend
+ * @param b - Word that ends the blend
+ * @returns Blends that keep parts of both words
+ */
+function blend(a: string, b: string): string[] {
+	for (let k = Math.min(a.length, b.length) - 1; k >= 2; k--) {
+		if (a.endsWith(b.slice(0, k))) return [a + b.slice(k)];
+	}
+
+	let start = 0;
+	while (start < b.length && !isVowel(b[start])) start++;
+	const tail = b.slice(start);
+	if (tail === b || tail.length < 2) return [];
+
+	// Heads: the leading consonants, or through the first vowel run plus one consonant
+	let onset = 0;
+	while (onset < a.length && !isVowel(a[onset])) onset++;
+	let syllable = onset;
+	while (syllable < a.length && isVowel(a[syllable])) syllable++;
+	if (syllable < a.length) syllable++;
+
+	return [a.slice(0, onset), a.slice(0, syllable)]
+		.filter((head) => head.length > 0 && head !== a)
+		.map((head) => head + tail);
+}
+
+/**
+ * Builds portmanteaus from every ordered pair of seed words.
+ * @param words - Seed words
+ * @returns One-word coined names
+ */
+function blendNames(words: string[]): DomainIdea[] {
+	const ideas: DomainIdea[] = [];
+	for (const a of words) {
+		for (const b of words) {
+			if (a === b) continue;
+			for (const name of blend(a, b)) {
+				if (
+					name.length >= MIN_COINED_LENGTH &&
+					name.length <= MAX_COINED_LENGTH &&
+					!words.includes(name)
+				) {
+					ideas.push({ name, wordCount: 1 });
+				}
+			}
+		}
+	}
+	return ideas;
+}
+
+/**
+ * Drops vowels the way Flickr and Tumblr did ("tracker" = "trackr", "trckr").
+ * @param words - Seed words
+ * @returns One-word abbreviated names
+ */
+function dropVowelNames(words: string[]): DomainIdea[] {
+	const ideas: DomainIdea[] = [];
+	for (const word of words) {
+		if (word.length < 5) continue;
+		const variants = [
+			word.replace(/er$/, "r"),
+			// Keep the first letter so the word stays recognizable
+			word[0] + word.slice(1).replace(/[aeiou]/g, ""),
+		];
+		for (const name of variants) {
+			if (name !== word && name.length >= MIN_COINED_LENGTH) {
+				ideas.push({ name, wordCount: 1 });
+			}
+		}
+	}
+	return ideas;
+}
+
+/**
+ * Pairs seed words into compounds ("habitflow", "habit-flow").
+ * @param words - Seed words
+ * @param allowHyphens - Also build hyphenated pairs
+ * @returns Two-word names
+ */
+function compoundNames(words: string[], allowHyphens: boolean): DomainIdea[] {
+	const ideas: DomainIdea[] = [];
+	for (const a of words) {
+		for (const b of words) {
+			if (a === b) continue;
+			ideas.push({ name: a + b, wordCount: 2 });
+			if (allowHyphens) ideas.push({ name: `${a}-${b}`, wordCount: 2 });
+		}
+	}
+	return ideas;
+}
+
+/**
+ * Shuffles an array in place (Fisher-Yates).
+ * @param items - Array to shuffle
+ * @param random - Random number source
+ * @returns The same array, shuffled
+ */
+function shuffle<T>(items: T[], random: () => number): T[] {
+	for (let i = items.length - 1; i > 0; i--) {
+		const j = Math.floor(random() * (i + 1));
+		const a = items[i];
+		const b = items[j];
+		if (a === undefined || b === undefined) continue;
+		items[i] = b;
+		items[j] = a;
+	}
+	return items;
+}
+
+/**
+ * Generates domain name ideas from seed words without an LLM.
+ * Combines the seed words with NAME_PREFIXES and NAME_SUFFIXES, blends
+ * pairs into portmanteaus, drops vowels (with abbreviations allowed) and
+ * pairs words into compounds, then picks from each strategy in turn.
+ * The same seed words, options and seed always give the same names.
+ * @param concept - Concept whose words are the seeds (unless options.seedWords is set)
+ * @param options - Generation options; count, maxWords, allowHyphens,
+ *   allowAbbreviations, exclude, seedWords and seed apply
+ * @returns Generated ideas, not yet cleaned or length-checked, with a summary as reasoning
+ * @throws Error if there are no seed words
+ */
+export function generateRuleBasedIdeas(
+	concept: string,
+	options: GenerateOptions = {},
+): GenerationResult {
+	const words = options.seedWords?.length
+		? extractSeedWords(options.seedWords.join(" "))
+		: extractSeedWords(concept);
+	if (words.length === 0) {
+		throw new Error(`No seed words in "${concept}"`);
+	}
+
+	const count = options.count ?? 30;
+	const maxWords = options.maxWords ?? 3;
+	const seed = options.seed ?? hashString(words.join(" "));
+	const random = seededRandom(seed);
+	const exclude = new Set(options.exclude);
+
+	const strategies: DomainIdea[][] = [
+		words.map((name) => ({ name, wordCount: 1 })),
+		affixNames(words),
+		blendNames(words),
+		options.allowAbbreviations === false ? [] : dropVowelNames(words),
+		compoundNames(words, options.allowHyphens ?? true),
+	].map((ideas) =>
+		shuffle(
+			ideas.filter((i) => i.wordCount <= maxWords && !exclude.has(i.name)),
+			random,
+		),
+	);
+
+	// Take from each strategy in turn so every style is represented
+	const seen = new Set<string>();
+	const ideas: DomainIdea[] = [];
+	for (let i = 0; ideas.length < count; i++) {
+		if (strategies.every((s) => i >= s.length)) break;
+		for (const strategy of strategies) {
+			const idea = strategy[i];
+			if (!idea || seen.has(idea.name) || ideas.length >= count) continue;
+			seen.add(idea.name);
+			ideas.push(idea);
+		}
+	}
+
+	return {
+		ideas,
+		reasoning: `Built from the seed words ${words.join(", ")} with affixes, blends, dropped vowels and compounds (seed ${seed}).`,
+	};
+}
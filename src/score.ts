@@ -0,0 +1,169 @@
+import type { NameScore } from "./types.js";
+
+/** How much each part counts toward the total (sums to 1) */
+const SCORE_WEIGHTS = {
+	pronounceability: 0.3,
+	spelling: 0.2,
+	length: 0.2,
+	hyphens: 0.15,
+	digits: 0.15,
+} as const;
+
+// Letter counts that score full marks for length
+const IDEAL_MIN_LENGTH = 4;
+const IDEAL_MAX_LENGTH = 8;
+
+// Consonant pairs spoken as one sound, counted as one consonant in clusters
+const DIGRAPHS = /th|ch|sh|ph|wh|ck|ng|qu/g;
+
+// Three-consonant onsets that are easy to say at the start of a word
+const EASY_ONSETS = new Set(["str", "spr", "spl", "scr", "shr", "thr", "chr"]);
+
+/**
+ * Spellings a listener cannot tell apart by ear, with the penalty for each.
+ * Each pattern costs its penalty once per occurrence.
+ */
+const AMBIGUOUS_SPELLINGS: Array<[RegExp, number]> = [
+	// f or ph
+	[/ph/g, 15],
+	// k, c or ck
+	[/ck|c(?=[aou])|k/g, 5],
+	// ks, cks, cs or x
+	[/x/g, 15],
+	// i before e
+	[/ie|ei/g, 10],
+	// s or z
+	[/z/g, 10],
+	// q without u
+	[/q(?!u)/g, 20],
+	// Silent letters
+	[/^kn|^wr|gh|mb$/g, 15],
+	// Doubled consonants are not heard
+	[/([^aeiou])\1/g, 15],
+	// Vowel teams with the same sound (ee/ea, oo/ou, ai/ay)
+	[/ea|ou|ay|ai|oo|ee/g, 5],
+	// A y used as a vowel between consonants ("lyft")
+	[/[^aeiouy]y[^aeiouy]/g, 15],
+];
+
+/**
+ * Checks whether a letter is a vowel ("y" counts).
+ * @param char - Single character
+ * @returns True for a, e, i, o, u and y
+ */
+function isVowel(char: string): boolean {
+	return "aeiouy".includes(char);
+}
+
+/**
+ * Limits a value to the 0-100 range and rounds it.
+ * @param value - Raw score
+ * @returns Integer from 0 to 100
+ */
+function clamp(value: number): number {
+	return Math.round(Math.min(100, Math.max(0, value)));
+}
+
+/**
+ * Rates how easily a word can be pronounced.
+ * Penalizes words without vowels, consonant clusters of three or more (other
+ * than easy onsets like "str"), runs of three or more vowels, an unbalanced
+ * vowel share and more than four syllables.
+ * @param letters - Lower-case ASCII letters of one word
+ * @returns Score from 0 to 100
+ */
+function scorePronounceability(letters: string): number {
+	if (letters.length === 0) return 100;
+
+	const vowels = [...letters].filter(isVowel).length;
+	if (vowels === 0) return letters.length <= 3 ? 40 : 10;
+
+	let score = 100;
+	const sounds = letters.replace(DIGRAPHS, "C");
+	for (const match of sounds.matchAll(/[^aeiouy]{3,}/g)) {
+		const cluster = match[0];
+		const easyOnset = match.index === 0 && EASY_ONSETS.has(cluster);
+		if (!easyOnset) score -= 15 * (cluster.length - 2);
+	}
+	for (const match of letters.matchAll(/[aeiouy]{3,}/g)) {
+		score -= 10 * (match[0].length - 2);
+	}
+
+	// Most easy words are 30-60% vowels
+	const vowelShare = vowels / letters.length;
+	if (vowelShare < 0.3) score -= (0.3 - vowelShare) * 150;
+	if (vowelShare > 0.6) score -= (vowelShare - 0.6) * 150;
+
+	const syllables = letters.match(/[aeiouy]+/g)?.length ?? 0;
+	if (syllables > 4) score -= 10 * (syllables - 4);
+
+	return clamp(score);
+}
+
+/**
+ * Rates how surely a listener could spell a word after hearing it.
+ * @param letters - Lower-case ASCII letters of one word
+ * @returns Score from 0 to 100
+ */
+function scoreSpelling(letters: string): number {
+	let score = 100;
+	for (const [pattern, penalty] of AMBIGUOUS_SPELLINGS) {
+		score -= (letters.match(pattern)?.length ?? 0) * penalty;
+	}
+	return clamp(score);
+}
+
+/**
+ * Rates a name's length against the ideal of 4-8 characters.
+ * @param length - Characters in the name
+ * @returns Score from 0 to 100
+ */
+function scoreLength(length: number): number {
+	// Short names lose more per missing letter than long names per extra one
+	if (length < IDEAL_MIN_LENGTH) {
+		return clamp(100 - 20 * (IDEAL_MIN_LENGTH - length));
+	}
+	if (length > IDEAL_MAX_LENGTH) {
+		return clamp(100 - 8 * (length - IDEAL_MAX_LENGTH));
+	}
+	return 100;
+}
+
+/**
+ * Scores how good a name is to say, spell and type.
+ * Pronounceability and spelling are judged per hyphen- or digit-separated
+ * word and averaged by length. Names in other scripts get a neutral 50 for
+ * both, since the heuristics only know English spelling.
+ * @param name - Domain label without TLD (e.g., "habitflow")
+ * @returns Total score and its breakdown, each 0-100
+ */
+export function scoreName(name: string): NameScore {
+	const lower = name.toLowerCase();
+	const words = lower.split(/[^a-z]+/).filter(Boolean);
+	const isLatin = /^[a-z0-9-]*$/.test(lower);
+	const letterCount = words.reduce((sum, w) => sum + w.length, 0);
+
+	// Weight each word by its length so a stray short word does not dominate
+	const averageBy = (score: (word: string) => number) =>
+		letterCount === 0
+			? 0
+			: words.reduce((sum, w) => sum + score(w) * w.length, 0) / letterCount;
+
+	const hyphenCount = (lower.match(/-/g) ?? []).length;
+	const digitCount = (lower.match(/\d/g) ?? []).length;
+
+	const parts = {
+		pronounceability: isLatin ? clamp(averageBy(scorePronounceability)) : 50,
+		spelling: isLatin ? clamp(averageBy(scoreSpelling)) : 50,
+		length: scoreLength([...lower].length),
+		hyphens: clamp(100 - 40 * hyphenCount),
+		digits: clamp(100 - 35 * digitCount),
+	};
+
+	let total = 0;
+	for (const [part, weight] of Object.entries(SCORE_WEIGHTS)) {
+		total += parts[part as keyof typeof parts] * weight;
+	}
+
+	return { total: clamp(total), ...parts };
+}
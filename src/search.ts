@@ -1,12 +1,36 @@
+import { checkDomainsStream, createRateLimiters } from "./checkers.js";
+import { convertAmount, convertPricing } from "./currency.js";
 import { combineWithTlds, generateDomainIdeas } from "./generate.js";
-import { getTldPricing } from "./namecheap.js";
-import { checkDomains } from "./rdap.js";
+import { combineWithHacks } from "./hacks.js";
+import { checkIdnSupport } from "./idn.js";
+import {
+	checkDomains as checkDomainsNamecheap,
+	getTldPricing,
+} from "./namecheap.js";
+import { getPremiumTotalCost, getTotalCost } from "./pricing.js";
+import { listRdapTlds } from "./rdap.js";
+import { comparePricing, findCheapest } from "./registrars.js";
+import { scoreName } from "./score.js";
 import type {
+	DomainIdea,
 	DomainSearchResult,
 	NamecheapConfig,
+	RegistrarPricing,
 	SearchOptions,
 	TldPricing,
 } from "./types.js";
+import { abortMessage, withDeadline } from "./util.js";
+
+// Domains per namecheap.domains.check call (API limit)
+const PREMIUM_BATCH_SIZE = 50;
+
+// Generation rounds with targetAvailable when maxRounds is not set
+const DEFAULT_MAX_ROUNDS = 5;
+
+/** A generated name combined with one TLD, or a domain hack spelling it */
+type Candidate = ReturnType<typeof combineWithTlds>[number] & {
+	hack?: string;
+};
 
 /**
  * Result from a domain search operation.
@@ -14,43 +38,312 @@ import type {
 export interface SearchResult {
 	/** Matched domains with availability and pricing */
 	domains: DomainSearchResult[];
-	/** LLM reasoning about the generation process */
+	/** LLM reasoning about the generation process, from the first round */
 	reasoning: string;
 	/** TLD pricing map for reference */
 	pricing: Map<string, TldPricing>;
+	/** Generation rounds run (1 unless options.targetAvailable is set) */
+	rounds: number;
 }
 
 /**
- * Generates domain name ideas and checks availability.
- * Combines LLM generation, RDAP/WHOIS availability checks, and optional Namecheap pricing.
+ * Progress event from a streaming search.
+ * Events arrive in order: ideas, pricing (with Namecheap credentials or a
+ * registrar comparison only), one result per candidate domain, then done.
+ * With options.targetAvailable, later rounds repeat ideas and results before done.
+ */
+export type SearchEvent =
+	| {
+			type: "ideas";
+			/** Name ideas generated this round, without names tried before */
+			ideas: DomainIdea[];
+			/** LLM reasoning about the generation process */
+			reasoning: string;
+			/** Generation round, starting at 1 */
+			round: number;
+			/** Number of candidate domains checked across all rounds so far, including this one's */
+			total: number;
+	  }
+	| {
+			type: "pricing";
+			/** Namecheap registration prices for the requested TLDs */
+			pricing: TldPricing[];
+			/** Every registrar's prices, when options.registrars is set */
+			comparison?: RegistrarPricing[];
+	  }
+	| {
+			type: "result";
+			/** Checked domain with pricing */
+			domain: DomainSearchResult;
+			/** Whether the domain passes the search filters */
+			matches: boolean;
+			/** Domains checked so far, including this one */
+			completed: number;
+			/** Number of candidate domains */
+			total: number;
+	  }
+	| {
+			type: "done";
+			/** Filtered and sorted results, as returned by searchDomains */
+			result: SearchResult;
+	  };
+
+/**
+ * Gets the price a domain is compared by.
+ * @param domain - Search result
+ * @returns Total cost over the search's horizon, falling back to the first-year
+ * price (premium or TLD) for results without one, or undefined if unknown
+ */
+function effectivePrice(domain: DomainSearchResult): number | undefined {
+	if (domain.totalCost !== undefined) return domain.totalCost;
+	return domain.isPremium ? domain.premiumPrice : domain.registerPrice;
+}
+
+/**
+ * Computes a search result's cost of ownership.
+ * Premium names renew at their premium renewal price when one is quoted,
+ * otherwise at the TLD's renewal price.
+ * @param domain - Search result with premium info filled in
+ * @param pricing - Pricing for the domain's TLD, if known
+ * @param years - Years of ownership
+ * @returns Total cost, or undefined if the prices needed are unknown
+ */
+function totalCostOf(
+	domain: DomainSearchResult,
+	pricing: TldPricing | undefined,
+	years: number,
+): number | undefined {
+	if (domain.isPremium) {
+		if (domain.premiumPrice === undefined) return undefined;
+		return getPremiumTotalCost(
+			domain.premiumPrice,
+			domain.premiumRenewPrice ?? pricing?.renewPrice,
+			years,
+		);
+	}
+	return pricing ? getTotalCost(pricing, years) : undefined;
+}
+
+/**
+ * Checks whether a search result passes the availability, premium, price,
+ * length and score filters.
+ * @param domain - Search result to test
+ * @param options - Search options with filter settings
+ * @returns True if the domain should be kept
+ */
+function matchesFilters(
+	domain: DomainSearchResult,
+	options: SearchOptions,
+): boolean {
+	if (
+		options.availableOnly &&
+		domain.status !== "available" &&
+		!(options.includeUnknown && domain.status === "unknown")
+	) {
+		return false;
+	}
+
+	if (options.excludePremium && domain.isPremium) return false;
+
+	if (options.maxPrice !== undefined) {
+		const price = effectivePrice(domain);
+		// Include domains with unknown pricing (don't exclude based on missing data)
+		if (price !== undefined && price > options.maxPrice) return false;
+	}
+
+	if (
+		options.maxLength !== undefined &&
+		domain.baseName.length > options.maxLength
+	) {
+		return false;
+	}
+
+	if (
+		options.minScore !== undefined &&
+		(domain.score?.total ?? 0) < options.minScore
+	) {
+		return false;
+	}
+
+	return true;
+}
+
+/**
+ * Sorts search results in place.
+ * @param domains - Search results to sort
+ * @param sortBy - Sort key (unsorted if undefined)
+ * @returns The same array, sorted
+ */
+export function sortSearchResults(
+	domains: DomainSearchResult[],
+	sortBy: SearchOptions["sortBy"],
+): DomainSearchResult[] {
+	if (sortBy === "price") {
+		domains.sort(
+			(a, b) =>
+				(effectivePrice(a) ?? Number.POSITIVE_INFINITY) -
+				(effectivePrice(b) ?? Number.POSITIVE_INFINITY),
+		);
+	} else if (sortBy === "name") {
+		domains.sort((a, b) => a.domain.localeCompare(b.domain));
+	} else if (sortBy === "length") {
+		domains.sort((a, b) => a.baseName.length - b.baseName.length);
+	} else if (sortBy === "score") {
+		domains.sort((a, b) => (b.score?.total ?? 0) - (a.score?.total ?? 0));
+	}
+	return domains;
+}
+
+/**
+ * Adds Namecheap premium status and price to search results in place.
+ * Results Namecheap could not check keep what the availability checker said.
+ * @param config - Namecheap API configuration
+ * @param domains - Available domains (at most PREMIUM_BATCH_SIZE)
+ * @param signal - Optional signal that cancels the request
+ * @throws Error if the client IP cannot be determined
+ */
+async function addPremiumInfo(
+	config: NamecheapConfig,
+	domains: DomainSearchResult[],
+	signal?: AbortSignal,
+): Promise<void> {
+	const results = await checkDomainsNamecheap(
+		config,
+		domains.map((d) => d.domain),
+		signal,
+	);
+	const byDomain = new Map(results.map((r) => [r.domain, r]));
+
+	for (const domain of domains) {
+		const premium = byDomain.get(domain.domain);
+		if (!premium || premium.status === "unknown") continue;
+		domain.isPremium = premium.isPremium;
+		domain.premiumPrice = premium.isPremium ? premium.premiumPrice : undefined;
+		domain.premiumRenewPrice = premium.premiumRenewPrice;
+	}
+}
+
+/**
+ * Generates domain name ideas and checks availability, yielding progress as it happens.
+ * Pricing is loaded before lookups so every result event carries its price.
+ * With Namecheap credentials, available domains are held back and sent to
+ * namecheap.domains.check in batches of 50 for premium status and price,
+ * unless Namecheap already checked them.
+ * With options.targetAvailable, names are generated in rounds until that many
+ * available domains pass the filters, options.maxRounds is reached or
+ * options.maxLookups domains have been checked. Each round asks the LLM to
+ * avoid every name tried so far; a failed later round ends the search with
+ * what earlier rounds found.
+ * With options.domainHacks, names ending in a TLD from the RDAP bootstrap
+ * file are also checked as domain hacks (e.g., "delicious" as "delicio.us").
+ * When options.signal aborts or options.deadline passes during lookups, the
+ * remaining domains are reported unknown and the search still completes.
+ * With options.currency, every price (and maxPrice) is in that currency.
  * @param concept - The concept or idea to generate domain names for
  * @param options - Search and filter options
- * @param namecheapConfig - Optional Namecheap config for pricing data
- * @returns Search results with domains, reasoning, and pricing
+ * @param namecheapConfig - Optional Namecheap config for pricing data and the "namecheap" checker
+ * @returns Async iterator over search events, ending with "done"
+ * @throws Error if aborted before any names were generated, or if
+ *   options.currency is set without exchange rates
  */
-export async function searchDomains(
+export async function* searchDomainsStream(
 	concept: string,
 	options: SearchOptions,
 	namecheapConfig?: NamecheapConfig,
-): Promise<SearchResult> {
-	const { ideas, reasoning } = await generateDomainIdeas(concept, {
-		count: options.count,
-		maxWords: options.maxWords,
-		allowHyphens: options.allowHyphens,
-		allowAbbreviations: options.allowAbbreviations,
-		creativity: options.creativity,
-	});
+): AsyncGenerator<SearchEvent> {
+	const signal = withDeadline(options.signal, options.deadline);
+	const years = options.years ?? 1;
+	const maxRounds = options.targetAvailable
+		? (options.maxRounds ?? DEFAULT_MAX_ROUNDS)
+		: 1;
+	const maxLookups = options.maxLookups ?? Number.POSITIVE_INFINITY;
+	const { currency, exchangeRates } = options;
+	if (currency && !exchangeRates) {
+		throw new Error("Converting to a currency needs exchange rates");
+	}
+	// Namecheap quotes premium prices in USD
+	const convertUsd = (amount: number | undefined) =>
+		amount !== undefined && currency && exchangeRates
+			? convertAmount(amount, "USD", currency, exchangeRates)
+			: amount;
+	const convert = <T extends TldPricing>(p: T): T =>
+		currency && exchangeRates ? convertPricing(p, currency, exchangeRates) : p;
 
-	const candidates = combineWithTlds(ideas, options.tlds);
-	const domainNames = candidates.map((c) => c.domain);
+	const hackTlds = options.domainHacks
+		? await listRdapTlds(options.cache, signal)
+		: undefined;
 
-	const checkResults = await checkDomains(domainNames);
+	// Base names generated so far, across rounds
+	const tried = new Set<string>();
+	const candidateMap = new Map<string, Candidate>();
+
+	/**
+	 * Runs one generation round.
+	 * @returns New ideas and candidate domains within the lookup budget
+	 */
+	const generateRound = async () => {
+		const { ideas, reasoning } = await generateDomainIdeas(concept, {
+			count: options.count,
+			maxWords: options.maxWords,
+			allowHyphens: options.allowHyphens,
+			allowAbbreviations: options.allowAbbreviations,
+			creativity: options.creativity,
+			language: options.language,
+			llm: options.llm,
+			generator: options.generator,
+			seedWords: options.seedWords,
+			seed: options.seed,
+			exclude: [...tried],
+			signal,
+		});
+		const fresh = ideas.filter((idea) => !tried.has(idea.name));
+		for (const idea of fresh) tried.add(idea.name);
+
+		// Skip IDNs in a script the registry does not accept
+		const candidates: Candidate[] = [
+			...combineWithTlds(fresh, options.tlds),
+			...(hackTlds ? combineWithHacks(fresh, hackTlds) : []),
+		]
+			.filter((c) => !candidateMap.has(c.domain) && !checkIdnSupport(c.domain))
+			.slice(0, Math.max(0, maxLookups - candidateMap.size));
+		for (const c of candidates) candidateMap.set(c.domain, c);
+		return { ideas: fresh, reasoning, candidates };
+	};
+
+	let round = 1;
+	let generation: Awaited<ReturnType<typeof generateRound>>;
+	try {
+		generation = await generateRound();
+	} catch (e) {
+		// Nothing to return partially without names
+		if (signal?.aborted) {
+			throw new Error(`${abortMessage(signal)} while generating names`);
+		}
+		throw e;
+	}
+	const { reasoning } = generation;
+	yield {
+		type: "ideas",
+		ideas: generation.ideas,
+		reasoning,
+		round,
+		total: candidateMap.size,
+	};
 
 	const pricingMap = new Map<string, TldPricing>();
+	let pricing: TldPricing[] | undefined;
 	if (namecheapConfig) {
 		try {
-			const pricingResults = await getTldPricing(namecheapConfig, options.tlds);
-			for (const p of pricingResults) {
+			pricing = (
+				await getTldPricing(
+					namecheapConfig,
+					// Domain hacks can land on any TLD
+					hackTlds ? undefined : options.tlds,
+					signal,
+					options.cache,
+				)
+			).map(convert);
+			for (const p of pricing) {
 				pricingMap.set(p.tld, p);
 			}
 		} catch {
@@ -58,61 +351,187 @@ export async function searchDomains(
 		}
 	}
 
-	const checkMap = new Map(checkResults.map((r) => [r.domain, r]));
+	let comparison: RegistrarPricing[] | undefined;
+	let cheapestByTld = new Map<string, RegistrarPricing>();
+	if (options.registrars) {
+		// Failing registrars are left out of the comparison
+		({ prices: comparison } = await comparePricing(
+			options.tlds,
+			options.registrars,
+			{ signal },
+		));
+		// Registrars are compared in USD, then shown in the search currency
+		cheapestByTld = new Map(
+			[...findCheapest(comparison, years)].map(([tld, p]) => [tld, convert(p)]),
+		);
+		comparison = comparison.map(convert);
+	}
+
+	if (pricing || comparison) {
+		yield { type: "pricing", pricing: pricing ?? [], comparison };
+	}
 
-	let domains: DomainSearchResult[] = candidates.map((candidate) => {
-		const check = checkMap.get(candidate.domain);
-		const pricing = pricingMap.get(candidate.tld);
+	const domains: DomainSearchResult[] = [];
+	let completed = 0;
+	let found = 0;
 
+	const toEvent = (domain: DomainSearchResult): SearchEvent => {
+		domain.premiumPrice = convertUsd(domain.premiumPrice);
+		domain.premiumRenewPrice = convertUsd(domain.premiumRenewPrice);
+		domain.currency = currency ?? "USD";
+		domain.totalCost = totalCostOf(domain, pricingMap.get(domain.tld), years);
+		// Premium prices are set by the registry, not the TLD price list
+		if (!domain.isPremium) domain.cheapest = cheapestByTld.get(domain.tld);
+		const matches = matchesFilters(domain, options);
+		if (matches) {
+			domains.push(domain);
+			if (domain.status === "available") found++;
+		}
 		return {
-			domain: candidate.domain,
-			baseName: candidate.baseName,
-			tld: candidate.tld,
-			wordCount: candidate.wordCount,
-			available: check?.available ?? false,
-			isPremium: check?.isPremium ?? false,
-			premiumPrice: check?.premiumPrice,
-			registerPrice: pricing?.registerPrice,
-			error: check?.error,
+			type: "result",
+			domain,
+			matches,
+			completed: ++completed,
+			total: candidateMap.size,
 		};
-	});
+	};
 
-	if (options.availableOnly) {
-		domains = domains.filter((d) => d.available);
-	}
+	// Premium lookups stop for the rest of the search if Namecheap is unreachable
+	let premiumConfig = namecheapConfig;
+	const awaitingPremium: DomainSearchResult[] = [];
+	const flushPremium = async (): Promise<DomainSearchResult[]> => {
+		const batch = awaitingPremium.splice(0);
+		if (premiumConfig && !signal?.aborted) {
+			try {
+				await addPremiumInfo(premiumConfig, batch, signal);
+			} catch {
+				premiumConfig = undefined;
+			}
+		}
+		return batch;
+	};
 
-	if (options.excludePremium) {
-		domains = domains.filter((d) => !d.isPremium);
-	}
+	// One set of limiters for every round, so throttled servers stay slowed down
+	const limiters = createRateLimiters(options.rateLimits);
+	for (;;) {
+		const checks = checkDomainsStream(
+			generation.candidates.map((c) => c.domain),
+			options.checkers,
+			{
+				namecheapConfig,
+				cache: options.cache,
+				limiters,
+				signal,
+				dnsServers: options.dnsServers,
+			},
+		);
 
-	if (options.maxPrice !== undefined) {
-		const maxPrice = options.maxPrice;
-		domains = domains.filter((d) => {
-			const price = d.isPremium ? d.premiumPrice : d.registerPrice;
-			// Include domains with unknown pricing (don't exclude based on missing data)
-			return price === undefined || price <= maxPrice;
-		});
-	}
+		for await (const check of checks) {
+			const candidate = candidateMap.get(check.domain);
+			if (!candidate) continue;
+			const pricing = pricingMap.get(candidate.tld);
 
-	if (options.maxLength !== undefined) {
-		const maxLength = options.maxLength;
-		domains = domains.filter((d) => d.baseName.length <= maxLength);
-	}
+			const domain: DomainSearchResult = {
+				domain: candidate.domain,
+				baseName: candidate.baseName,
+				tld: candidate.tld,
+				wordCount: candidate.wordCount,
+				status: check.status,
+				available: check.available,
+				isPremium: check.isPremium,
+				premiumPrice: check.premiumPrice,
+				premiumRenewPrice: check.premiumRenewPrice,
+				registerPrice: pricing?.registerPrice,
+				renewPrice: pricing?.renewPrice,
+				error: check.error,
+				checkedBy: check.checkedBy,
+				confidence: check.confidence,
+				verification: check.verification,
+				punycode: check.punycode,
+				unicode: check.unicode,
+				// Domain hacks are said as the word they spell
+				score: scoreName(candidate.hack ?? candidate.baseName),
+				hack: candidate.hack,
+			};
 
-	if (options.sortBy === "price") {
-		domains.sort((a, b) => {
-			const priceA = a.isPremium ? a.premiumPrice : a.registerPrice;
-			const priceB = b.isPremium ? b.premiumPrice : b.registerPrice;
-			return (
-				(priceA ?? Number.POSITIVE_INFINITY) -
-				(priceB ?? Number.POSITIVE_INFINITY)
-			);
-		});
-	} else if (options.sortBy === "name") {
-		domains.sort((a, b) => a.domain.localeCompare(b.domain));
-	} else if (options.sortBy === "length") {
-		domains.sort((a, b) => a.baseName.length - b.baseName.length);
+			const hasPremiumInfo =
+				check.checkedBy === "namecheap" ||
+				check.verification?.checker === "namecheap";
+			if (!premiumConfig || domain.status !== "available" || hasPremiumInfo) {
+				yield toEvent(domain);
+				continue;
+			}
+
+			awaitingPremium.push(domain);
+			if (awaitingPremium.length >= PREMIUM_BATCH_SIZE) {
+				for (const d of await flushPremium()) yield toEvent(d);
+			}
+		}
+		for (const d of await flushPremium()) yield toEvent(d);
+
+		if (
+			round >= maxRounds ||
+			found >= (options.targetAvailable ?? 0) ||
+			candidateMap.size >= maxLookups ||
+			signal?.aborted
+		) {
+			break;
+		}
+
+		round++;
+		try {
+			generation = await generateRound();
+		} catch {
+			// Keep what earlier rounds found
+			round--;
+			break;
+		}
+		yield {
+			type: "ideas",
+			ideas: generation.ideas,
+			reasoning: generation.reasoning,
+			round,
+			total: candidateMap.size,
+		};
 	}
 
-	return { domains, reasoning, pricing: pricingMap };
+	// Lookups finish out of order; restore candidate order before sorting
+	const order = new Map([...candidateMap.keys()].map((d, i) => [d, i]));
+	domains.sort(
+		(a, b) => (order.get(a.domain) ?? 0) - (order.get(b.domain) ?? 0),
+	);
+
+	yield {
+		type: "done",
+		result: {
+			domains: sortSearchResults(domains, options.sortBy),
+			reasoning,
+			pricing: pricingMap,
+			rounds: round,
+		},
+	};
+}
+
+/**
+ * Generates domain name ideas and checks availability.
+ * Combines LLM generation, pluggable availability checks, and optional Namecheap pricing.
+ * @param concept - The concept or idea to generate domain names for
+ * @param options - Search and filter options
+ * @param namecheapConfig - Optional Namecheap config for pricing data and the "namecheap" checker
+ * @returns Search results with domains, reasoning, and pricing
+ * @throws Error if aborted before any names were generated
+ */
+export async function searchDomains(
+	concept: string,
+	options: SearchOptions,
+	namecheapConfig?: NamecheapConfig,
+): Promise<SearchResult> {
+	for await (const event of searchDomainsStream(
+		concept,
+		options,
+		namecheapConfig,
+	)) {
+		if (event.type === "done") return event.result;
+	}
+	throw new Error("Search ended without a result");
 }
@@ -1,19 +1,108 @@
+/**
+ * Availability status of a domain.
+ * "unknown" means the lookup failed, not that the domain is taken.
+ */
+export type AvailabilityStatus =
+	| "available"
+	| "registered"
+	| "reserved"
+	| "unknown";
+
+/**
+ * How far a result can be trusted after verification.
+ * "high": a second source agreed (or a registry reported the name taken),
+ * "medium": no second source could answer, "low": sources disagreed.
+ */
+export type Confidence = "high" | "medium" | "low";
+
+/**
+ * Outcome of re-checking a result with an independent checker.
+ */
+export interface Verification {
+	/** Checker used as the second source */
+	checker: string;
+	/** Status reported by the second source */
+	status: AvailabilityStatus;
+	/** True if the second source contradicts the result */
+	disagrees: boolean;
+}
+
+/**
+ * Registration record details from RDAP.
+ */
+export interface RegistrationDetails {
+	/** Sponsoring registrar name */
+	registrar?: string;
+	/** Registration date (ISO 8601) */
+	createdAt?: string;
+	/** Expiration date (ISO 8601) */
+	expiresAt?: string;
+	/** Last changed date (ISO 8601) */
+	updatedAt?: string;
+	/** EPP status codes (e.g., "clientHold", "redemptionPeriod", "pendingDelete") */
+	eppStatus: string[];
+	/** Delegated nameservers, lowercase */
+	nameservers: string[];
+}
+
 /**
  * Result of checking a domain's availability.
  */
 export interface DomainCheckResult {
 	/** Fully qualified domain name (e.g., "example.com") */
 	domain: string;
-	/** Whether the domain is available for registration */
+	/** Availability status */
+	status: AvailabilityStatus;
+	/** Whether the domain is available for registration (status === "available") */
 	available: boolean;
 	/** Whether the domain is a premium domain with special pricing */
 	isPremium: boolean;
 	/** Price for premium domains (only set if isPremium is true) */
 	premiumPrice?: number;
+	/** Yearly renewal price for premium domains, if the registrar quotes one */
+	premiumRenewPrice?: number;
 	/** Standard registration price from pricing API */
 	registerPrice?: number;
 	/** Error message if the check failed */
 	error?: string;
+	/** True if the result came from the on-disk cache */
+	cached?: boolean;
+	/** Registration details (only for registered domains checked via RDAP) */
+	details?: RegistrationDetails;
+	/** ASCII form of an internationalized name (e.g., "xn--bcher-kva.de") */
+	punycode?: string;
+	/** Unicode form of an internationalized name (e.g., "bücher.de") */
+	unicode?: string;
+	/** Checker that decided the result (e.g., "rdap", "dns-prefilter") */
+	checkedBy?: string;
+	/** Trust in the result (only set when verifying) */
+	confidence?: Confidence;
+	/** Second-source check of an available result (only set when verifying) */
+	verification?: Verification;
+}
+
+/**
+ * Price for one action over one duration.
+ */
+export interface PricePoint {
+	/** Duration in years (1-10) */
+	years: number;
+	/** Total price for the whole duration */
+	price: number;
+	/** Total price without promotions, if a promotion applies */
+	regularPrice?: number;
+}
+
+/**
+ * Prices by action and duration, as far as the registrar publishes them.
+ */
+export interface PriceMatrix {
+	/** New registrations */
+	register: PricePoint[];
+	/** Renewals */
+	renew: PricePoint[];
+	/** Transfers in (include one year of renewal) */
+	transfer: PricePoint[];
 }
 
 /**
@@ -22,10 +111,16 @@ export interface DomainCheckResult {
 export interface TldPricing {
 	/** TLD without leading dot (e.g., "com", "io") */
 	tld: string;
-	/** Price to register a new domain */
+	/** Price to register a new domain for one year (promotional if one applies) */
 	registerPrice: number;
-	/** Price to renew an existing domain */
+	/** Price to renew an existing domain for one year */
 	renewPrice: number;
+	/** Price to transfer the domain in */
+	transferPrice?: number;
+	/** One-year registration price without promotions, if a promotion applies */
+	regularRegisterPrice?: number;
+	/** Prices for every published duration */
+	matrix?: PriceMatrix;
 	/** Currency code (e.g., "USD") */
 	currency: string;
 }
@@ -44,6 +139,182 @@ export interface NamecheapConfig {
 	clientIp?: string;
 	/** Use sandbox API instead of production */
 	sandbox?: boolean;
+	/** API endpoint override, e.g. a local stand-in (takes precedence over sandbox) */
+	baseUrl?: string;
+}
+
+/**
+ * Contact details sent with a domain registration.
+ * Used for the registrant, technical, administrative and billing contacts.
+ */
+export interface ContactDetails {
+	firstName: string;
+	lastName: string;
+	/** Company name, left out for individuals */
+	organization?: string;
+	address1: string;
+	address2?: string;
+	city: string;
+	/** State, province or region */
+	stateProvince: string;
+	postalCode: string;
+	/** Two-letter ISO country code (e.g., "US") */
+	country: string;
+	/** Phone number in +CC.NUMBER format (e.g., "+1.5555550100") */
+	phone: string;
+	email: string;
+}
+
+/**
+ * A named set of registration settings from the config file.
+ */
+export interface RegistrationProfile {
+	/** Contact used for every WHOIS contact role */
+	contact: ContactDetails;
+	/** Custom nameservers (registrar defaults if not set) */
+	nameservers?: string[];
+	/** Enable free WHOIS privacy where the TLD supports it (default: true) */
+	privacy?: boolean;
+}
+
+/**
+ * Options for registering a domain.
+ */
+export interface RegisterOptions {
+	/** Registration period in years (1-10) */
+	years: number;
+	/** Contact used for every WHOIS contact role */
+	contact: ContactDetails;
+	/** Custom nameservers (registrar defaults if not set) */
+	nameservers?: string[];
+	/** Enable free WHOIS privacy where the TLD supports it (default: true) */
+	privacy?: boolean;
+	/** Premium registration price, required to buy a premium name */
+	premiumPrice?: number;
+}
+
+/**
+ * Outcome of a domain registration.
+ */
+export interface RegistrationResult {
+	/** Registered domain name */
+	domain: string;
+	/** Whether the registry accepted the registration */
+	registered: boolean;
+	/** Amount charged to the account */
+	chargedAmount: number;
+	/** Registrar order ID */
+	orderId?: string;
+	/** Registrar transaction ID */
+	transactionId?: string;
+}
+
+/**
+ * A domain registered in the user's registrar account.
+ */
+export interface OwnedDomain {
+	/** Domain name */
+	domain: string;
+	/** Registration date (ISO 8601) */
+	createdAt?: string;
+	/** Expiry date (ISO 8601) */
+	expiresAt: string;
+	/** Whether the registration has lapsed (the name may still be renewable) */
+	isExpired: boolean;
+	/** Whether the registrar lock is on */
+	isLocked: boolean;
+	/** Whether the registrar renews the domain automatically */
+	autoRenew: boolean;
+	/** Whether WHOIS privacy is enabled */
+	privacy: boolean;
+	/** Whether the domain is a premium name */
+	isPremium: boolean;
+	/** One-year renewal price from the TLD price list (unset for premium names) */
+	renewPrice?: number;
+	/** Currency of renewPrice */
+	currency?: string;
+}
+
+/**
+ * Configuration for the Porkbun pricing API (no credentials needed).
+ */
+export interface PorkbunConfig {
+	/** API base URL override (default: https://api.porkbun.com/api/json/v3) */
+	baseUrl?: string;
+}
+
+/**
+ * Configuration for the Gandi v5 API.
+ */
+export interface GandiConfig {
+	/** Personal access token from the Gandi dashboard */
+	apiKey: string;
+	/** API base URL override (default: https://api.gandi.net/v5) */
+	baseUrl?: string;
+}
+
+/**
+ * Configuration for the Cloudflare Registrar API.
+ */
+export interface CloudflareConfig {
+	/** API token with Registrar read access */
+	apiToken: string;
+	/** Account ID the token belongs to */
+	accountId: string;
+	/** API base URL override (default: https://api.cloudflare.com/client/v4) */
+	baseUrl?: string;
+}
+
+/**
+ * Credentials for every registrar a price comparison may use.
+ * Registrars without the credentials they need are skipped.
+ */
+export interface RegistrarConfig {
+	/** Namecheap API credentials */
+	namecheap?: NamecheapConfig;
+	/** Porkbun settings (its pricing API is public) */
+	porkbun?: PorkbunConfig;
+	/** Gandi API credentials */
+	gandi?: GandiConfig;
+	/** Cloudflare API credentials */
+	cloudflare?: CloudflareConfig;
+}
+
+/**
+ * A TLD price quoted by one registrar.
+ */
+export interface RegistrarPricing extends TldPricing {
+	/** Registrar adapter name (e.g., "porkbun") */
+	registrar: string;
+}
+
+/**
+ * A pluggable registrar price source.
+ */
+export interface RegistrarAdapter {
+	/** Unique name used for registry lookup and CLI selection */
+	name: string;
+	/** Short human-readable description */
+	description: string;
+	/**
+	 * Checks whether the config has what this adapter needs.
+	 * @param config - Registrar credentials
+	 * @returns True if getPricing can be called
+	 */
+	isConfigured(config: RegistrarConfig): boolean;
+	/**
+	 * Fetches register and renew prices for TLDs.
+	 * TLDs the registrar does not sell are left out.
+	 * @param tlds - TLDs or public suffixes without leading dot
+	 * @param config - Registrar credentials
+	 * @param signal - Optional signal that cancels the requests
+	 * @returns Prices for the TLDs the registrar sells
+	 */
+	getPricing(
+		tlds: string[],
+		config: RegistrarConfig,
+		signal?: AbortSignal,
+	): Promise<TldPricing[]>;
 }
 
 /**
@@ -60,13 +331,61 @@ export interface GenerateOptions {
 	allowAbbreviations?: boolean;
 	/** LLM temperature 0-1 (default: 0.9) */
 	creativity?: number;
+	/** Generate names in this language or script (e.g., "German", "Japanese"); ASCII-only if unset */
+	language?: string;
+	/** Language model to generate with (default: from the environment) */
+	llm?: LlmConfig;
+	/** Names already tried, which the LLM is asked not to repeat and which are dropped if it does */
+	exclude?: string[];
+	/** Where names come from: the LLM, offline rules, or both (default: "llm") */
+	generator?: NameGenerator;
+	/** Words the rules generator builds on (default: the words of the concept) */
+	seedWords?: string[];
+	/** Seed for the rules generator's random choices (default: derived from the seed words) */
+	seed?: number;
+	/** Cancels generation (and, for searches, pending lookups) */
+	signal?: AbortSignal;
+}
+
+/**
+ * Source of generated names.
+ * "rules" builds names from seed words offline and needs no API key;
+ * "both" splits the count between the LLM and the rules.
+ */
+export type NameGenerator = "llm" | "rules" | "both";
+
+/**
+ * LLM providers names can be generated with.
+ * "openai-compatible" is any server speaking the OpenAI chat completions API
+ * (Ollama, vLLM, LM Studio, ...).
+ */
+export type LlmProviderName =
+	| "anthropic"
+	| "openai"
+	| "openrouter"
+	| "openai-compatible";
+
+/**
+ * Language model selection. Unset fields fall back to the DOMAIN_MUSE_PROVIDER,
+ * DOMAIN_MUSE_MODEL and DOMAIN_MUSE_BASE_URL environment variables, then to
+ * the first provider with an API key and its default model.
+ */
+export interface LlmConfig {
+	/** Provider to call */
+	provider?: LlmProviderName;
+	/** Model ID (e.g., "claude-sonnet-4-20250514", "llama3.1:8b") */
+	model?: string;
+	/** API endpoint, required for openai-compatible (e.g., "http://localhost:11434/v1") */
+	baseUrl?: string;
+	/** API key (default: the provider's environment variable) */
+	apiKey?: string;
 }
 
 /**
  * A generated domain name idea.
  */
 export interface DomainIdea {
-	/** Base domain name without TLD (e.g., "habitflow") */
+	/** Base domain name without TLD (e.g., "habitflow"), Unicode for IDNs */
 	name: string;
 	/** Number of semantic words in the name */
 	wordCount: number;
@@ -86,18 +405,48 @@ export interface GenerationResult {
  * Options for searching and filtering domain names.
  */
 export interface SearchOptions extends GenerateOptions {
-	/** TLDs to check (e.g., ["com", "io", "co"]) */
+	/** TLDs or public suffixes to check (e.g., ["com", "io", "co.uk"]) */
 	tlds: string[];
 	/** Only return available domains */
 	availableOnly?: boolean;
+	/** Keep domains with unknown status when availableOnly is set */
+	includeUnknown?: boolean;
 	/** Exclude premium-priced domains */
 	excludePremium?: boolean;
-	/** Maximum registration price filter */
+	/** Maximum registration price filter, in the search currency */
 	maxPrice?: number;
 	/** Maximum domain name length in characters */
 	maxLength?: number;
-	/** Sort order for results */
-	sortBy?: "price" | "name" | "length";
+	/** Sort order for results ("score" puts the best names first) */
+	sortBy?: "price" | "name" | "length" | "score";
+	/** Minimum name quality score (0-100) */
+	minScore?: number;
+	/** Years of ownership that maxPrice and price sorting compare (default: 1) */
+	years?: number;
+	/** Availability checkers to use (default: RDAP with WHOIS fallback) */
+	checkers?: CheckerPlan;
+	/** On-disk cache for availability results and price lists (default: no caching) */
+	cache?: CacheOptions;
+	/** Per-host rate limits for registry lookups */
+	rateLimits?: RateLimits;
+	/** Currency to convert prices to (default: prices stay in USD) */
+	currency?: string;
+	/** Exchange rates for currency conversion, required with currency */
+	exchangeRates?: ExchangeRates;
+	/** Overall time limit in milliseconds; domains not checked by then come back unknown */
+	deadline?: number;
+	/** DNS resolver addresses for DNS checkers (default: system resolver) */
+	dnsServers?: string[];
+	/** Compare TLD prices across the registrars configured here (default: no comparison) */
+	registrars?: RegistrarConfig;
+	/** Also check domain hacks, where a TLD from the RDAP bootstrap completes the name (e.g., "delicio.us") */
+	domainHacks?: boolean;
+	/** Keep generating rounds of names until this many available domains pass the filters (default: one round) */
+	targetAvailable?: number;
+	/** Most generation rounds with targetAvailable (default: 5) */
+	maxRounds?: number;
+	/** Most domains to look up across all rounds (default: no limit) */
+	maxLookups?: number;
 }
 
 /**
@@ -108,6 +457,164 @@ export interface DomainSearchResult extends DomainCheckResult {
 	wordCount: number;
 	/** Base domain name without TLD */
 	baseName: string;
-	/** TLD without leading dot */
+	/** Public suffix without leading dot (e.g., "com", "co.uk") */
 	tld: string;
+	/** Standard one-year renewal price from pricing API */
+	renewPrice?: number;
+	/** Cost to register and keep the domain for SearchOptions.years, if prices are known */
+	totalCost?: number;
+	/** Cheapest registrar for the TLD when comparing prices; unset for premium names */
+	cheapest?: RegistrarPricing;
+	/** Currency of the price fields */
+	currency?: string;
+	/** Name quality score with its breakdown */
+	score?: NameScore;
+	/** Word the domain spells when it is a domain hack (e.g., "delicious" for "delicio.us") */
+	hack?: string;
+}
+
+/**
+ * How good a name is to say, spell and type. Every part is 0-100, higher is better.
+ */
+export interface NameScore {
+	/** Weighted total of the parts below */
+	total: number;
+	/** How easily the name can be pronounced (syllables, consonant clusters, vowel balance) */
+	pronounceability: number;
+	/** How surely a listener can spell the name after hearing it (the "radio test") */
+	spelling: number;
+	/** Closeness to the ideal length of 4-8 letters */
+	length: number;
+	/** Penalty for hyphens (100 without any) */
+	hyphens: number;
+	/** Penalty for digits (100 without any) */
+	digits: number;
+}
+
+/**
+ * On-disk cache behavior. Caching is off unless this is provided.
+ */
+export interface CacheOptions {
+	/** Skip cached reads but still store fresh results (default: false) */
+	refresh?: boolean;
+	/** How long fetched TLD price lists stay fresh, in milliseconds (default: 24 hours) */
+	pricingTtlMs?: number;
+}
+
+/**
+ * Exchange rates relative to a base currency.
+ */
+export interface ExchangeRates {
+	/** Currency the rates are quoted against (e.g., "USD") */
+	base: string;
+	/** Date the rates were published (YYYY-MM-DD), if known */
+	date?: string;
+	/** Units of each currency per one unit of base (e.g., { EUR: 0.92 }) */
+	rates: Record<string, number>;
+}
+
+/**
+ * Per-host rate limit for one lookup protocol.
+ */
+export interface RateLimitOptions {
+	/** Sustained requests per second per host */
+	requestsPerSecond?: number;
+	/** Requests allowed in a burst before throttling kicks in */
+	burst?: number;
+	/** Maximum in-flight requests per host */
+	concurrency?: number;
+}
+
+/**
+ * Rate limits per lookup protocol.
+ */
+export interface RateLimits {
+	/** RDAP servers (default: 5 req/s, burst 5, 5 concurrent) */
+	rdap?: RateLimitOptions;
+	/** WHOIS servers (default: 1 req/s, burst 2, 2 concurrent) */
+	whois?: RateLimitOptions;
+}
+
+/**
+ * Schedules requests through per-host token buckets.
+ */
+export interface RateLimiter {
+	/**
+	 * Runs a request once the host's bucket allows it.
+	 * A RateLimitError from fn halves the host's rate and pauses it.
+	 * @param host - Server hostname the request goes to
+	 * @param fn - Request to run
+	 * @param signal - Optional signal that cancels the request while it waits
+	 * @returns Result of fn
+	 * @throws Whatever fn throws, or the signal's abort reason
+	 */
+	run<T>(host: string, fn: () => Promise<T>, signal?: AbortSignal): Promise<T>;
+}
+
+/**
+ * Rate limiters for one run of lookups, shared so that a server's throttling
+ * carries over between suffix groups, verification passes and search rounds.
+ */
+export interface RateLimiters {
+	/** RDAP servers */
+	rdap: RateLimiter;
+	/** WHOIS servers, including IANA referral queries */
+	whois: RateLimiter;
+}
+
+/**
+ * Shared context passed to availability checkers.
+ */
+export interface CheckContext {
+	/** Namecheap config, required by the "namecheap" checker */
+	namecheapConfig?: NamecheapConfig;
+	/** On-disk cache for results and RDAP bootstrap (default: no caching) */
+	cache?: CacheOptions;
+	/** Per-host rate limits for registry lookups */
+	rateLimits?: RateLimits;
+	/** Limiters to reuse across calls (default: new ones built from rateLimits per call) */
+	limiters?: RateLimiters;
+	/** Called with each final result as soon as it is known, in completion order */
+	onResult?: (result: DomainCheckResult) => void;
+	/** Cancels pending lookups; unfinished domains come back unknown */
+	signal?: AbortSignal;
+	/** Overall time limit in milliseconds, after which unfinished domains come back unknown */
+	deadline?: number;
+	/** DNS resolver addresses for the "dns" and "dns-prefilter" checkers (default: system resolver) */
+	dnsServers?: string[];
+}
+
+/**
+ * A pluggable availability backend (RDAP, WHOIS, DNS, registrar API, ...).
+ */
+export interface AvailabilityChecker {
+	/** Unique name used for registry lookup and CLI selection */
+	name: string;
+	/** Short human-readable description */
+	description: string;
+	/**
+	 * Checks availability of a batch of domains.
+	 * Results with `error` set are handed to the next checker in a chain.
+	 * Checkers may call `context.onResult` as each result arrives; results
+	 * not reported that way are reported when the batch resolves.
+	 * @param domains - Fully qualified domain names
+	 * @param context - Shared configuration for the check
+	 * @returns One result per input domain, in any order
+	 */
+	check(domains: string[], context: CheckContext): Promise<DomainCheckResult[]>;
+}
+
+/**
+ * Selects which checkers to run, optionally per TLD.
+ * Each entry is a chain: later checkers only see domains earlier ones failed on.
+ */
+export interface CheckerPlan {
+	/** Checker chain for TLDs without an override (e.g., ["rdap", "whois"]) */
+	default: string[];
+	/** Per-TLD checker chains keyed by TLD or public suffix without leading dot */
+	byTld?: Record<string, string[]>;
+	/** Run the "dns-prefilter" checker before every chain (default: false) */
+	dnsPrefilter?: boolean;
+	/** Re-check available results with an independent checker (default: false) */
+	verify?: boolean;
 }
@@ -0,0 +1,211 @@
+import { setMaxListeners } from "node:events";
+import { toAscii } from "./idn.js";
+
+// Domain validation regex - basic but catches injection attempts
+const DOMAIN_REGEX =
+	/^[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?(\.[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?)*$/i;
+
+// Retry configuration
+const MAX_RETRIES = 2;
+const RETRY_DELAY_MS = 1000;
+
+/**
+ * Validates domain name format to prevent injection attacks.
+ * Internationalized names are validated in their punycode form.
+ * @param domain - Domain name to validate (Unicode or ASCII)
+ * @returns True if domain format is valid
+ */
+export function isValidDomain(domain: string): boolean {
+	if (!domain) return false;
+	const ascii = /[^\p{ASCII}]/u.test(domain) ? toAscii(domain) : domain;
+	if (!ascii || ascii.length > 253) return false;
+	return DOMAIN_REGEX.test(ascii);
+}
+
+/**
+ * Delays execution for the specified duration.
+ * @param ms - Milliseconds to sleep
+ * @param signal - Optional signal that ends the wait early
+ * @throws The signal's abort reason if aborted before the delay ends
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+	return new Promise((resolve, reject) => {
+		if (signal?.aborted) {
+			reject(signal.reason);
+			return;
+		}
+		const onAbort = () => {
+			clearTimeout(timer);
+			reject(signal?.reason);
+		};
+		const timer = setTimeout(() => {
+			signal?.removeEventListener("abort", onAbort);
+			resolve();
+		}, ms);
+		signal?.addEventListener("abort", onAbort, { once: true });
+	});
+}
+
+/**
+ * Combines a caller's signal with an overall deadline.
+ * The result is a new signal, so the many per-lookup listeners added to it
+ * never touch (or trigger listener-leak warnings on) the caller's signal.
+ * @param signal - Caller's abort signal
+ * @param deadlineMs - Time limit in milliseconds from now
+ * @returns Signal that aborts on either, or undefined if neither is set
+ */
+export function withDeadline(
+	signal: AbortSignal | undefined,
+	deadlineMs: number | undefined,
+): AbortSignal | undefined {
+	const signals = [
+		...(signal ? [signal] : []),
+		...(deadlineMs !== undefined ? [AbortSignal.timeout(deadlineMs)] : []),
+	];
+	if (signals.length === 0) return undefined;
+	const combined = AbortSignal.any(signals);
+	setMaxListeners(0, combined);
+	return combined;
+}
+
+/**
+ * Creates a per-request timeout signal that also follows a caller's signal.
+ * @param ms - Request timeout in milliseconds
+ * @param signal - Caller's abort signal
+ * @returns Signal for fetch and similar APIs
+ */
+export function requestSignal(ms: number, signal?: AbortSignal): AbortSignal {
+	const timeout = AbortSignal.timeout(ms);
+	return signal ? AbortSignal.any([signal, timeout]) : timeout;
+}
+
+/**
+ * Describes why a signal aborted, for results cut short by it.
+ * @param signal - Aborted signal
+ * @returns "Deadline exceeded" for timeouts, "Aborted" otherwise
+ */
+export function abortMessage(signal: AbortSignal): string {
+	const reason = signal.reason as { name?: string } | undefined;
+	return reason?.name === "TimeoutError" ? "Deadline exceeded" : "Aborted";
+}
+
+/**
+ * Retries an async function with exponential backoff.
+ * Errors carrying a retryAfterMs (see RateLimitError) wait that long instead.
+ * @param fn - Function to retry
+ * @param retries - Maximum number of retries (default: MAX_RETRIES)
+ * @param signal - Optional signal that stops further attempts
+ * @returns Result of the function
+ * @throws Last error if all retries fail or the signal aborts
+ */
+export async function withRetry<T>(
+	fn: () => Promise<T>,
+	retries = MAX_RETRIES,
+	signal?: AbortSignal,
+): Promise<T> {
+	let lastError: Error | undefined;
+	for (let attempt = 0; attempt <= retries; attempt++) {
+		try {
+			return await fn();
+		} catch (e) {
+			lastError = e instanceof Error ? e : new Error(String(e));
+			if (signal?.aborted) break;
+			if (attempt < retries) {
+				const retryAfterMs = (e as { retryAfterMs?: number }).retryAfterMs;
+				try {
+					await sleep(retryAfterMs ?? RETRY_DELAY_MS * 2 ** attempt, signal);
+				} catch {
+					break;
+				}
+			}
+		}
+	}
+	throw lastError;
+}
+
+/**
+ * Turns a callback-driven task into an async iterator.
+ * Values are buffered until consumed; the iterator ends when the task settles.
+ * Breaking out of the loop early does not cancel the task.
+ * @param run - Task that calls emit for each value
+ * @returns Async iterator over emitted values, in emission order
+ * @throws Whatever run rejects with, after every earlier value was yielded
+ */
+export async function* iterateEmitted<T>(
+	run: (emit: (value: T) => void) => Promise<void>,
+): AsyncGenerator<T> {
+	const queue: T[] = [];
+	let wake: (() => void) | undefined;
+	let settled = false;
+	let failure: { error: unknown } | undefined;
+
+	run((value) => {
+		queue.push(value);
+		wake?.();
+	})
+		.catch((error: unknown) => {
+			failure = { error };
+		})
+		.finally(() => {
+			settled = true;
+			wake?.();
+		});
+
+	for (;;) {
+		const next = queue.shift();
+		if (next !== undefined) {
+			yield next;
+			continue;
+		}
+		if (settled) break;
+		await new Promise<void>((resolve) => {
+			wake = resolve;
+		});
+		wake = undefined;
+	}
+
+	if (failure) throw failure.error;
+}
+
+// Label unlikely to be registered or premium in any TLD
+const PRICE_PROBE_LABEL = "domain-muse-price-probe";
+
+/**
+ * Builds a domain name for registrar APIs that only quote prices per domain.
+ * @param tld - TLD or public suffix without leading dot
+ * @returns Probe domain whose price is the TLD's standard price
+ */
+export function priceProbeDomain(tld: string): string {
+	return `${PRICE_PROBE_LABEL}.${tld}`;
+}
+
+/**
+ * Hashes a string to a 32-bit unsigned integer (FNV-1a).
+ * @param text - Text to hash
+ * @returns Hash value, stable across runs and platforms
+ */
+export function hashString(text: string): number {
+	let hash = 0x811c9dc5;
+	for (let i = 0; i < text.length; i++) {
+		hash ^= text.charCodeAt(i);
+		hash = Math.imul(hash, 0x01000193);
+	}
+	return hash >>> 0;
+}
+
+/**
+ * Creates a seeded pseudo-random number generator (mulberry32).
+ * The same seed always produces the same sequence.
+ * @param seed - Seed value (any integer)
+ * @returns Function returning numbers in [0, 1)
+ */
+export function seededRandom(seed: number): () => number {
+	let state = seed >>> 0;
+	return () => {
+		state = (state + 0x6d2b79f5) >>> 0;
+		let t = state;
+		t = Math.imul(t ^ (t >>> 15), t | 1);
+		t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+		return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+	};
+}
@@ -0,0 +1,395 @@
+import { createConnection } from "node:net";
+import { toAscii, toUnicode } from "./idn.js";
+import { parseDomain } from "./publicsuffix.js";
+import { RateLimitError, createRateLimiter } from "./ratelimit.js";
+import type {
+	CheckContext,
+	DomainCheckResult,
+	RateLimitOptions,
+	RateLimiter,
+} from "./types.js";
+import {
+	abortMessage,
+	isValidDomain,
+	withDeadline,
+	withRetry,
+} from "./util.js";
+import { isWhoisRateLimited, parseWhoisResponse } from "./whoisparsers.js";
+
+const WHOIS_PORT = 43;
+const IANA_WHOIS_SERVER = "whois.iana.org";
+
+// Per-host rate limit - WHOIS servers are more sensitive to rate limiting
+const WHOIS_RATE_LIMIT: Required<RateLimitOptions> = {
+	requestsPerSecond: 1,
+	burst: 2,
+	concurrency: 2,
+};
+
+// Connection limits
+const DEFAULT_TIMEOUT_MS = 10000;
+const MAX_RESPONSE_BYTES = 1024 * 1024;
+const MAX_REFERRALS = 2;
+
+// Known WHOIS servers, used before asking IANA
+const WHOIS_SERVERS: Record<string, string> = {
+	io: "whois.nic.io",
+	co: "whois.nic.co",
+	me: "whois.nic.me",
+	tv: "whois.nic.tv",
+	cc: "whois.nic.cc",
+	app: "whois.nic.google",
+	// CentralNic SLDs
+	"br.com": "whois.centralnic.com",
+	"cn.com": "whois.centralnic.com",
+	"eu.com": "whois.centralnic.com",
+	"uk.com": "whois.centralnic.com",
+	"us.com": "whois.centralnic.com",
+};
+
+/**
+ * Server-specific quirks for the WHOIS protocol.
+ */
+interface WhoisServerOptions {
+	/** Builds the query line (default: the bare domain) */
+	query?: (domain: string) => string;
+	/** Response character encoding (default: utf-8) */
+	encoding?: string;
+	/** Idle timeout in milliseconds (default: DEFAULT_TIMEOUT_MS) */
+	timeoutMs?: number;
+}
+
+const WHOIS_SERVER_OPTIONS: Record<string, WhoisServerOptions> = {
+	// Without the "domain" keyword Verisign also matches nameserver records
+	"whois.verisign-grs.com": { query: (d) => `domain ${d}` },
+	"whois.denic.de": { query: (d) => `-T dn,ace ${d}` },
+	"whois.jprs.jp": { query: (d) => `${d}/e`, encoding: "iso-2022-jp" },
+	"whois.kr": { encoding: "euc-kr" },
+	"whois.cnnic.cn": { timeoutMs: 20000 },
+};
+
+// IANA answers with "refer:" (TLD) or "whois:" (delegation record)
+const IANA_REFER_PATTERN = /^\s*(?:refer|whois):\s*(\S+)/im;
+
+// Thin registries point at the registrar's own WHOIS server
+const REFERRAL_PATTERN =
+	/^\s*(?:Registrar WHOIS Server|ReferralServer|Whois Server):\s*(?:r?whois:\/\/)?([^\s:/]+)/im;
+
+// IANA answers by TLD; a pending query is shared by every lookup that needs it
+const serverCache = new Map<string, Promise<string | null>>();
+
+/**
+ * A single response in a WHOIS lookup chain.
+ */
+export interface WhoisResponse {
+	/** Server that produced the response */
+	server: string;
+	/** Decoded response text */
+	text: string;
+}
+
+/**
+ * Options for a WHOIS lookup.
+ */
+export interface WhoisLookupOptions {
+	/** Follow registrar referrals after the registry response (default: true) */
+	followReferrals?: boolean;
+	/** Rate limiter shared across lookups (default: one per lookup) */
+	limiter?: RateLimiter;
+	/** Cancels the lookup, closing any open connection */
+	signal?: AbortSignal;
+}
+
+/**
+ * Decodes a raw WHOIS response, falling back to UTF-8 for unknown encodings.
+ * @param data - Raw response bytes
+ * @param encoding - Character encoding label
+ * @returns Decoded text
+ */
+function decodeResponse(data: Buffer, encoding = "utf-8"): string {
+	try {
+		return new TextDecoder(encoding).decode(data);
+	} catch {
+		return new TextDecoder("utf-8").decode(data);
+	}
+}
+
+/**
+ * Sends a raw query to a WHOIS server over TCP port 43.
+ * @param server - WHOIS server hostname
+ * @param query - Query string (usually a domain name)
+ * @param signal - Optional signal that closes the connection
+ * @returns Decoded response text
+ * @throws Error on connection failure, timeout, abort, or empty response
+ */
+export function whoisQuery(
+	server: string,
+	query: string,
+	signal?: AbortSignal,
+): Promise<string> {
+	const options = WHOIS_SERVER_OPTIONS[server] ?? {};
+	const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+	const line = options.query ? options.query(query) : query;
+
+	return new Promise((resolve, reject) => {
+		if (signal?.aborted) {
+			reject(signal.reason);
+			return;
+		}
+
+		const chunks: Buffer[] = [];
+		let size = 0;
+
+		const socket = createConnection({ host: server, port: WHOIS_PORT });
+		const onAbort = () => socket.destroy(signal?.reason);
+		signal?.addEventListener("abort", onAbort, { once: true });
+		socket.setTimeout(timeoutMs, () => {
+			socket.destroy(
+				new Error(`WHOIS timeout after ${timeoutMs}ms (${server})`),
+			);
+		});
+		socket.on("connect", () => {
+			socket.write(`${line}\r\n`);
+		});
+		socket.on("data", (chunk: Buffer) => {
+			size += chunk.length;
+			if (size > MAX_RESPONSE_BYTES) {
+				socket.destroy(new Error(`WHOIS response too large (${server})`));
+				return;
+			}
+			chunks.push(chunk);
+		});
+		socket.on("error", reject);
+		socket.on("close", (hadError) => {
+			signal?.removeEventListener("abort", onAbort);
+			if (hadError) return;
+			const text = decodeResponse(Buffer.concat(chunks), options.encoding);
+			if (!text.trim()) {
+				reject(new Error(`Empty WHOIS response (${server})`));
+				return;
+			}
+			resolve(text);
+		});
+	});
+}
+
+/**
+ * Creates a WHOIS rate limiter with default per-host limits.
+ * @param overrides - User-supplied limits
+ * @returns Rate limiter for WHOIS servers
+ */
+export function createWhoisLimiter(overrides?: RateLimitOptions): RateLimiter {
+	return createRateLimiter(WHOIS_RATE_LIMIT, overrides);
+}
+
+/**
+ * Sends a rate-limited WHOIS query, retrying throttled and failed queries.
+ * @param limiter - Per-host rate limiter
+ * @param server - WHOIS server hostname
+ * @param query - Query string
+ * @param signal - Optional signal that cancels the query and its retries
+ * @returns Decoded response text
+ * @throws RateLimitError if the server keeps refusing, or the last query error
+ */
+function limitedQuery(
+	limiter: RateLimiter,
+	server: string,
+	query: string,
+	signal?: AbortSignal,
+): Promise<string> {
+	return withRetry(
+		() =>
+			limiter.run(
+				server,
+				async () => {
+					const text = await whoisQuery(server, query, signal);
+					if (isWhoisRateLimited(server, text)) {
+						throw new RateLimitError(`WHOIS rate limited by ${server}`);
+					}
+					return text;
+				},
+				signal,
+			),
+		undefined,
+		signal,
+	);
+}
+
+/**
+ * Finds the WHOIS server for a public suffix, asking IANA if it is not known.
+ * Second-level suffixes without their own server use their TLD's server.
+ * Results (including misses) are cached for subsequent calls, and concurrent
+ * lookups for the same TLD share one IANA query.
+ * @param suffix - Public suffix or TLD without leading dot (e.g., "co.uk")
+ * @param limiter - Rate limiter for the IANA query (default: a new one)
+ * @param signal - Optional signal that cancels the IANA query
+ * @returns WHOIS server hostname, or undefined if the TLD has none
+ */
+export async function findWhoisServer(
+	suffix: string,
+	limiter: RateLimiter = createWhoisLimiter(),
+	signal?: AbortSignal,
+): Promise<string | undefined> {
+	const clean = suffix.toLowerCase().replace(/^\./, "");
+	const key = clean.split(".").pop() ?? clean;
+	const known = WHOIS_SERVERS[clean] ?? WHOIS_SERVERS[key];
+	if (known) return known;
+
+	let pending = serverCache.get(key);
+	if (!pending) {
+		pending = limitedQuery(limiter, IANA_WHOIS_SERVER, key, signal).then(
+			(text) => {
+				const server = text.match(IANA_REFER_PATTERN)?.[1]?.toLowerCase();
+				return server && isValidDomain(server) ? server : null;
+			},
+		);
+		serverCache.set(key, pending);
+		// A failed query is forgotten so the next lookup asks again
+		pending.catch(() => serverCache.delete(key));
+	}
+	return (await pending) ?? undefined;
+}
+
+/**
+ * Looks up a domain via WHOIS, starting at the registry server.
+ * Follows registrar referrals (up to 2 hops) unless disabled.
+ * @param domain - Domain name to look up
+ * @param options - Lookup options
+ * @returns Responses in lookup order, registry first
+ * @throws Error if the domain is invalid, has no WHOIS server, or the registry query fails
+ */
+export async function lookupWhois(
+	domain: string,
+	options: WhoisLookupOptions = {},
+): Promise<WhoisResponse[]> {
+	if (!isValidDomain(domain)) {
+		throw new Error("Invalid domain format");
+	}
+
+	// Registries are queried with the punycode form of IDNs
+	const asciiDomain = toAscii(domain);
+	const parsed = parseDomain(asciiDomain);
+	if (!parsed) {
+		throw new Error("Invalid domain: no name below the public suffix");
+	}
+	if (parsed.domain !== asciiDomain) {
+		throw new Error(
+			`Not a registrable domain (did you mean ${toUnicode(parsed.domain)}?)`,
+		);
+	}
+
+	const limiter = options.limiter ?? createWhoisLimiter();
+	const { signal } = options;
+	const registryServer = await findWhoisServer(parsed.suffix, limiter, signal);
+	if (!registryServer) {
+		throw new Error(`No WHOIS server for .${parsed.suffix}`);
+	}
+
+	const responses: WhoisResponse[] = [
+		{
+			server: registryServer,
+			text: await limitedQuery(limiter, registryServer, asciiDomain, signal),
+		},
+	];
+
+	if (options.followReferrals === false) return responses;
+
+	const visited = new Set([registryServer]);
+	for (let hop = 0; hop < MAX_REFERRALS; hop++) {
+		const last = responses[responses.length - 1]?.text ?? "";
+		const referral = last.match(REFERRAL_PATTERN)?.[1]?.toLowerCase();
+		if (!referral || visited.has(referral) || !isValidDomain(referral)) break;
+		visited.add(referral);
+
+		try {
+			responses.push({
+				server: referral,
+				text: await limiter.run(
+					referral,
+					() => whoisQuery(referral, asciiDomain, signal),
+					signal,
+				),
+			});
+		} catch {
+			// Registrar servers are best-effort; the registry answer stands
+			break;
+		}
+	}
+
+	return responses;
+}
+
+/**
+ * Checks domain availability via WHOIS protocol.
+ * Only the registry response is used, so referrals are not followed.
+ * Responses no parser recognizes come back unknown with an error.
+ * @param domain - Domain name to check
+ * @param limiter - Per-host rate limiter
+ * @param signal - Optional signal that cancels the lookup
+ * @returns Domain check result with availability status
+ */
+async function checkViaWhois(
+	domain: string,
+	limiter: RateLimiter,
+	signal?: AbortSignal,
+): Promise<DomainCheckResult> {
+	try {
+		const [registry] = await lookupWhois(domain, {
+			followReferrals: false,
+			limiter,
+			signal,
+		});
+		if (!registry) {
+			throw new Error("Empty WHOIS lookup");
+		}
+
+		const verdict = parseWhoisResponse(registry.server, registry.text);
+		if (verdict === "rate-limited") {
+			throw new RateLimitError(`WHOIS rate limited by ${registry.server}`);
+		}
+
+		return {
+			domain,
+			status: verdict,
+			available: verdict === "available",
+			isPremium: false,
+		};
+	} catch (e) {
+		const error = signal?.aborted
+			? abortMessage(signal)
+			: e instanceof Error
+				? e.message
+				: "WHOIS lookup failed";
+		return {
+			domain,
+			status: "unknown",
+			available: false,
+			isPremium: false,
+			error,
+		};
+	}
+}
+
+/**
+ * Checks availability of multiple domains via WHOIS only.
+ * Queries are rate limited per WHOIS server (default: 1 req/s, 2 concurrent).
+ * Lookups cut short by the context's signal or deadline come back unknown.
+ * @param domains - Array of domain names to check
+ * @param context - Rate limits or limiters, result callback, signal and deadline
+ * @returns Array of check results in same order as input
+ */
+export async function checkDomainsViaWhois(
+	domains: string[],
+	context: CheckContext = {},
+): Promise<DomainCheckResult[]> {
+	const signal = withDeadline(context.signal, context.deadline);
+	const limiter =
+		context.limiters?.whois ?? createWhoisLimiter(context.rateLimits?.whois);
+	return Promise.all(
+		domains.map(async (domain) => {
+			const result = await checkViaWhois(domain, limiter, signal);
+			context.onResult?.(result);
+			return result;
+		}),
+	);
+}
@@ -0,0 +1,153 @@
+import type { AvailabilityStatus } from "./types.js";
+
+/**
+ * What a WHOIS response says about a domain.
+ * "rate-limited" means the server refused to answer the query.
+ */
+export type WhoisVerdict =
+	| Exclude<AvailabilityStatus, "unknown">
+	| "rate-limited";
+
+/**
+ * Response patterns for one WHOIS server.
+ * Checked in order: rate-limited, reserved, available, registered.
+ */
+export interface WhoisParser {
+	/** Patterns matching "no such domain" replies */
+	available: RegExp[];
+	/** Patterns matching a registration record */
+	registered: RegExp[];
+	/** Patterns matching registry-reserved or blocked names */
+	reserved?: RegExp[];
+	/** Patterns matching query quota or throttling replies */
+	rateLimited?: RegExp[];
+}
+
+/**
+ * Thrown when a WHOIS response matches none of its server's patterns.
+ */
+export class WhoisParseError extends Error {
+	/** Server that produced the response */
+	readonly server: string;
+
+	constructor(server: string) {
+		super(`Unrecognized WHOIS response from ${server}`);
+		this.name = "WhoisParseError";
+		this.server = server;
+	}
+}
+
+// Throttling replies seen across registries; every parser checks these
+// against the start of the reply, since legal footers mention query limits too
+const RATE_LIMITED_PATTERNS = [
+	/quota exceeded/i,
+	/limit exceeded/i,
+	/too many (?:requests|queries|connections)/i,
+	/query limit/i,
+];
+
+// Non-blank lines at the start of a reply that can hold a throttling message
+const RATE_LIMITED_HEAD_LINES = 3;
+
+const RESERVED_PATTERNS = [
+	/reserved by (?:the )?registry/i,
+	/status:\s*reserved/i,
+	/this name is reserved/i,
+	/domain is reserved/i,
+];
+
+// Fallback for servers without a dedicated parser
+const GENERIC_PARSER: WhoisParser = {
+	available: [
+		/^no match/im,
+		/^not found/im,
+		/^no data found/im,
+		/^no entries found/im,
+		/^nothing found/im,
+		/domain not found/i,
+		/no match for/i,
+		/not registered/i,
+		/no such domain/i,
+		/object not found/i,
+		/query didn't return any result/i,
+		/status:\s*available/i,
+		/status:\s*free/i,
+		/domain status:\s*no object found/i,
+		/the queried object does not exist/i,
+		/no information available/i,
+		/domain you requested is not known/i,
+		/this domain is available/i,
+		/is available for registration/i,
+	],
+	registered: [
+		/^\s*domain(?: name)?:\s*\S/im,
+		/^\s*registrar:/im,
+		/^\s*registrant:/im,
+		/^\s*creation date:/im,
+		/^\s*created:/im,
+		/^\s*registered on:/im,
+		/^\s*status:\s*(?:active|connect|registered|ok)\b/im,
+	],
+	reserved: RESERVED_PATTERNS,
+};
+
+// Dedicated parsers by server; filled through registerWhoisParser()
+const WHOIS_PARSERS: Record<string, WhoisParser> = {};
+
+/**
+ * Adds or replaces the response parser for a WHOIS server.
+ * Use this for registries whose replies the generic patterns misread.
+ * @param server - WHOIS server hostname (e.g., "whois.nic.xyz")
+ * @param parser - Response patterns for the server
+ */
+export function registerWhoisParser(server: string, parser: WhoisParser): void {
+	WHOIS_PARSERS[server.toLowerCase()] = parser;
+}
+
+/**
+ * Gets the parser for a WHOIS server.
+ * @param server - WHOIS server hostname
+ * @returns Dedicated parser, or the generic one for unknown servers
+ */
+function getParser(server: string): WhoisParser {
+	return WHOIS_PARSERS[server.toLowerCase()] ?? GENERIC_PARSER;
+}
+
+/**
+ * Checks whether a WHOIS server refused a query because of its limits.
+ * The shared patterns only look at the first few lines of the reply; a
+ * server's own patterns look at all of it.
+ * @param server - Server that produced the response
+ * @param text - Response text
+ * @returns True if the response is a throttling reply
+ */
+export function isWhoisRateLimited(server: string, text: string): boolean {
+	const head = text
+		.split("\n")
+		.filter((line) => line.trim())
+		.slice(0, RATE_LIMITED_HEAD_LINES)
+		.join("\n");
+	return (
+		RATE_LIMITED_PATTERNS.some((pattern) => pattern.test(head)) ||
+		(getParser(server).rateLimited ?? []).some((pattern) => pattern.test(text))
+	);
+}
+
+/**
+ * Reads a domain's status from a registry WHOIS response.
+ * @param server - Server that produced the response
+ * @param text - Response text
+ * @returns Verdict for the queried domain
+ * @throws WhoisParseError if the response matches no known pattern
+ */
+export function parseWhoisResponse(server: string, text: string): WhoisVerdict {
+	const parser = getParser(server);
+	const matches = (patterns: RegExp[] = []) =>
+		patterns.some((pattern) => pattern.test(text));
+
+	if (isWhoisRateLimited(server, text)) return "rate-limited";
+	if (matches(parser.reserved)) return "reserved";
+	if (matches(parser.available)) return "available";
+	if (matches(parser.registered)) return "registered";
+	throw new WhoisParseError(server);
+}
@@ -0,0 +1,213 @@
+/**
+ * A parsed XML element.
+ */
+export interface XmlElement {
+	/** Tag name, including any namespace prefix */
+	name: string;
+	/** Attributes with entities decoded */
+	attributes: Record<string, string>;
+	/** Child elements in document order */
+	children: XmlElement[];
+	/** Concatenated text content of this element (not descendants), trimmed */
+	text: string;
+}
+
+/**
+ * Thrown when a document is not well-formed XML.
+ */
+export class XmlParseError extends Error {
+	/** Character offset where parsing failed */
+	readonly offset: number;
+
+	constructor(message: string, offset: number) {
+		super(`${message} at offset ${offset}`);
+		this.name = "XmlParseError";
+		this.offset = offset;
+	}
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+	amp: "&",
+	lt: "<",
+	gt: ">",
+	quot: '"',
+	apos: "'",
+};
+
+const NAME = /[A-Za-z_:][\w:.-]*/y;
+const ATTRIBUTE = /\s*([A-Za-z_:][\w:.-]*)\s*=\s*(?:"([^"]*)"|'([^']*)')/y;
+
+/**
+ * Decodes XML character and entity references.
+ * Unknown named entities are left as written.
+ * @param text - Raw text or attribute value
+ * @returns Decoded text
+ */
+export function decodeEntities(text: string): string {
+	return text.replace(
+		/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi,
+		(ref: string, body: string) => {
+			if (body[0] === "#") {
+				const code =
+					body[1] === "x" || body[1] === "X"
+						? Number.parseInt(body.slice(2), 16)
+						: Number.parseInt(body.slice(1), 10);
+				return code <= 0x10ffff ? String.fromCodePoint(code) : ref;
+			}
+			return NAMED_ENTITIES[body] ?? ref;
+		},
+	);
+}
+
+/**
+ * Parses an XML document into an element tree.
+ * Supports what API responses use: elements, attributes, text, CDATA,
+ * comments, processing instructions and a DOCTYPE without internal subset.
+ * Namespaces are not resolved; prefixed names are kept as written.
+ * @param xml - XML document
+ * @returns The root element
+ * @throws XmlParseError if the document is not well-formed
+ */
+export function parseXml(xml: string): XmlElement {
+	const stack: XmlElement[] = [];
+	const texts: string[][] = [];
+	let root: XmlElement | undefined;
+	let pos = 0;
+
+	const skipPast = (marker: string, what: string) => {
+		const end = xml.indexOf(marker, pos);
+		if (end === -1) throw new XmlParseError(`Unterminated ${what}`, pos);
+		const content = xml.slice(pos, end);
+		pos = end + marker.length;
+		return content;
+	};
+
+	while (pos < xml.length) {
+		const lt = xml.indexOf("<", pos);
+		const text = xml.slice(pos, lt === -1 ? xml.length : lt);
+		if (text.trim()) {
+			if (stack.length === 0) {
+				throw new XmlParseError("Text outside the root element", pos);
+			}
+			texts[texts.length - 1]?.push(decodeEntities(text));
+		}
+		if (lt === -1) break;
+		pos = lt;
+
+		if (xml.startsWith("<?", pos)) {
+			pos += 2;
+			skipPast("?>", "processing instruction");
+		} else if (xml.startsWith("<!--", pos)) {
+			pos += 4;
+			skipPast("-->", "comment");
+		} else if (xml.startsWith("<![CDATA[", pos)) {
+			pos += 9;
+			const content = skipPast("]]>", "CDATA section");
+			texts[texts.length - 1]?.push(content);
+		} else if (xml.startsWith("<!", pos)) {
+			pos += 2;
+			skipPast(">", "declaration");
+		} else if (xml.startsWith("</", pos)) {
+			pos += 2;
+			NAME.lastIndex = pos;
+			const name = NAME.exec(xml)?.[0];
+			const open = stack.pop();
+			if (!name || !open || open.name !== name) {
+				throw new XmlParseError(
+					`Unexpected closing tag </${name ?? ""}>`,
+					pos - 2,
+				);
+			}
+			pos += name.length;
+			const rest = skipPast(">", "closing tag");
+			if (rest.trim()) {
+				throw new XmlParseError(`Malformed closing tag </${name}>`, pos);
+			}
+			open.text = (texts.pop() ?? []).join("").trim();
+		} else {
+			pos += 1;
+			NAME.lastIndex = pos;
+			const name = NAME.exec(xml)?.[0];
+			if (!name) throw new XmlParseError("Invalid tag name", pos);
+			pos += name.length;
+
+			const element: XmlElement = {
+				name,
+				attributes: {},
+				children: [],
+				text: "",
+			};
+			for (;;) {
+				ATTRIBUTE.lastIndex = pos;
+				const attr = ATTRIBUTE.exec(xml);
+				if (!attr) break;
+				element.attributes[attr[1] as string] = decodeEntities(
+					attr[2] ?? attr[3] ?? "",
+				);
+				pos = ATTRIBUTE.lastIndex;
+			}
+
+			while (/\s/.test(xml[pos] ?? "")) pos++;
+			const selfClosing = xml.startsWith("/>", pos);
+			if (!selfClosing && xml[pos] !== ">") {
+				throw new XmlParseError(`Malformed tag <${name}>`, pos);
+			}
+			pos += selfClosing ? 2 : 1;
+
+			const parent = stack[stack.length - 1];
+			if (parent) {
+				parent.children.push(element);
+			} else if (root) {
+				throw new XmlParseError("More than one root element", lt);
+			} else {
+				root = element;
+			}
+			if (!selfClosing) {
+				stack.push(element);
+				texts.push([]);
+			}
+		}
+	}
+
+	if (stack.length > 0) {
+		throw new XmlParseError(
+			`Unclosed element <${stack[stack.length - 1]?.name}>`,
+			xml.length,
+		);
+	}
+	if (!root) throw new XmlParseError("No root element", 0);
+	return root;
+}
+
+/**
+ * Finds all descendants with a tag name, in document order.
+ * @param element - Element to search below
+ * @param name - Tag name to match (case-sensitive)
+ * @returns Matching descendants
+ */
+export function findAll(element: XmlElement, name: string): XmlElement[] {
+	const found: XmlElement[] = [];
+	for (const child of element.children) {
+		if (child.name === name) found.push(child);
+		found.push(...findAll(child, name));
+	}
+	return found;
+}
+
+/**
+ * Finds the first descendant with a tag name.
+ * @param element - Element to search below
+ * @param name - Tag name to match (case-sensitive)
+ * @returns First matching descendant, or undefined if none
+ */
+export function findFirst(
+	element: XmlElement,
+	name: string,
+): XmlElement | undefined {
+	for (const child of element.children) {
+		if (child.name === name) return child;
+		const found = findFirst(child, name);
+		if (found) return found;
+	}
+	return undefined;
+}
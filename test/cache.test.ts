@@ -0,0 +1,48 @@
+import assert from "node:assert/strict";
+import { mkdtemp, readdir, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, before, describe, it } from "node:test";
+import { clearCache, getCached, setCached } from "../src/cache.js";
+
+describe("clearCache", () => {
+	const { XDG_CACHE_HOME } = process.env;
+	let base: string;
+
+	// The cache directory is <base>/domain-muse; foo.json beside it is the
+	// file a path-escaping namespace would reach
+	before(async () => {
+		base = await mkdtemp(join(tmpdir(), "domain-muse-cache-"));
+		process.env.XDG_CACHE_HOME = base;
+	});
+
+	after(async () => {
+		if (XDG_CACHE_HOME === undefined) {
+			Reflect.deleteProperty(process.env, "XDG_CACHE_HOME");
+		} else {
+			process.env.XDG_CACHE_HOME = XDG_CACHE_HOME;
+		}
+		await rm(base, { recursive: true, force: true });
+	});
+
+	it("clears one namespace", async () => {
+		await setCached("availability", [
+			{ key: "a.com", value: 1, ttlMs: 60_000 },
+		]);
+		await setCached("pricing", [{ key: "com", value: 2, ttlMs: 60_000 }]);
+
+		await clearCache("availability");
+
+		assert.equal((await getCached("availability", ["a.com"])).size, 0);
+		assert.equal((await getCached("pricing", ["com"])).get("com"), 2);
+	});
+
+	for (const namespace of ["../foo", "a/b", "Foo"]) {
+		it(`rejects the namespace ${JSON.stringify(namespace)}`, async () => {
+			await writeFile(join(base, "foo.json"), "{}");
+
+			await assert.rejects(clearCache(namespace), /Invalid cache namespace/);
+			assert.ok((await readdir(base)).includes("foo.json"));
+		});
+	}
+});
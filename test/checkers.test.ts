@@ -0,0 +1,108 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+	checkDomainsWith,
+	createRateLimiters,
+	registerChecker,
+} from "../src/checkers.js";
+import type { CheckContext, RateLimiters } from "../src/types.js";
+import { abortMessage, sleep } from "../src/util.js";
+
+// Limiters each call of the "recording" checker was given
+const seenLimiters: Array<RateLimiters | undefined> = [];
+
+registerChecker({
+	name: "recording",
+	description: "Reports every domain registered and records its context",
+	check: async (domains, context: CheckContext) => {
+		seenLimiters.push(context.limiters);
+		return domains.map((domain) => ({
+			domain,
+			status: "registered",
+			available: false,
+			isPremium: false,
+		}));
+	},
+});
+
+describe("checkDomainsWith rate limiters", () => {
+	it("shares one set of limiters across suffix groups", async () => {
+		seenLimiters.length = 0;
+		await checkDomainsWith(["a.com", "b.io", "c.co.uk"], {
+			default: ["recording"],
+			byTld: { io: ["recording", "dns"], "co.uk": ["recording", "whois"] },
+		});
+
+		assert.equal(seenLimiters.length, 3);
+		assert.ok(seenLimiters[0]);
+		for (const limiters of seenLimiters) {
+			assert.equal(limiters, seenLimiters[0]);
+		}
+	});
+
+	it("reuses limiters passed in the context across calls", async () => {
+		seenLimiters.length = 0;
+		const limiters = createRateLimiters();
+		const plan = { default: ["recording"] };
+		await checkDomainsWith(["a.com"], plan, { limiters });
+		await checkDomainsWith(["b.com"], plan, { limiters });
+
+		assert.deepEqual(seenLimiters, [limiters, limiters]);
+	});
+});
+
+registerChecker({
+	name: "slow",
+	description: "Waits for the signal, then reports every domain unknown",
+	check: async (domains, context) => {
+		const { signal } = context;
+		assert.ok(signal);
+		await sleep(10_000, signal).catch(() => {});
+		return domains.map((domain) => ({
+			domain,
+			status: "unknown",
+			available: false,
+			isPremium: false,
+			error: abortMessage(signal),
+		}));
+	},
+});
+
+registerChecker({
+	name: "stuck",
+	description: "Ignores the signal and answers late",
+	check: async (domains) => {
+		await sleep(300);
+		return domains.map((domain) => ({
+			domain,
+			status: "registered",
+			available: false,
+			isPremium: false,
+		}));
+	},
+});
+
+describe("checkDomainsWith deadline", () => {
+	for (const checker of ["slow", "stuck"]) {
+		it(`leaves checkedBy unset when the deadline cuts off ${checker}`, async () => {
+			const [result] = await checkDomainsWith(
+				["a.com"],
+				{ default: [checker] },
+				{ deadline: 50 },
+			);
+
+			assert.equal(result?.status, "unknown");
+			assert.match(result?.error ?? "", /deadline/i);
+			assert.equal(result?.checkedBy, undefined);
+		});
+	}
+
+	it("keeps checkedBy for results decided before the deadline", async () => {
+		const [result] = await checkDomainsWith(
+			["a.com"],
+			{ default: ["recording"] },
+			{ deadline: 1000 },
+		);
+		assert.equal(result?.checkedBy, "recording");
+	});
+});
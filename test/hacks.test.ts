@@ -0,0 +1,88 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { combineWithHacks, findDomainHacks } from "../src/hacks.js";
+
+/**
+ * Lists the domains findDomainHacks finds.
+ * @param word - Word to spell
+ * @param tlds - TLDs to try
+ * @returns Hack domains, longest TLD first
+ */
+function hackDomains(word: string, tlds: string[]): string[] {
+	return findDomainHacks(word, tlds).map((h) => h.domain);
+}
+
+describe("findDomainHacks", () => {
+	it("finds every TLD the word ends with, longest first", () => {
+		assert.deepEqual(hackDomains("megames", ["com", "es", "games", "io"]), [
+			"me.games",
+			"megam.es",
+		]);
+		assert.deepEqual(hackDomains("delicious", ["us"]), ["delicio.us"]);
+	});
+
+	it("reports the label and the word it spells", () => {
+		assert.deepEqual(findDomainHacks("Inst.Agram", ["am"]), [
+			{ domain: "instagr.am", word: "instagram", label: "instagr", tld: "am" },
+		]);
+	});
+
+	it("finds nothing when no TLD ends the word", () => {
+		assert.deepEqual(hackDomains("habit", ["com", "io", "st"]), []);
+	});
+
+	it("keeps at least two letters in front of the TLD", () => {
+		assert.deepEqual(hackDomains("bus", ["us"]), []);
+		assert.deepEqual(hackDomains("plus", ["us"]), ["pl.us"]);
+	});
+
+	it("skips labels that start or end with a hyphen", () => {
+		assert.deepEqual(hackDomains("go-to", ["to"]), []);
+		assert.deepEqual(hackDomains("-sto", ["to"]), []);
+		assert.deepEqual(hackDomains("a-go-to", ["to"]), []);
+		assert.deepEqual(hackDomains("go-goto", ["to"]), ["go-go.to"]);
+	});
+
+	it("skips IDN and malformed TLDs", () => {
+		assert.deepEqual(hackDomains("bankxn--p1ai", ["xn--p1ai"]), []);
+		assert.deepEqual(hackDomains("lots", ["s", "t5"]), []);
+	});
+
+	it("skips hacks that are public suffixes themselves", () => {
+		// co.uk is a registry suffix, not a name anyone can register
+		assert.deepEqual(hackDomains("couk", ["uk"]), []);
+		// Every name under .ck is a public suffix except www.ck
+		assert.deepEqual(hackDomains("stock", ["ck"]), []);
+		assert.deepEqual(hackDomains("wwwck", ["ck"]), ["www.ck"]);
+	});
+});
+
+describe("combineWithHacks", () => {
+	it("turns ideas into hack candidates with the word they spell", () => {
+		assert.deepEqual(
+			combineWithHacks(
+				[
+					{ name: "habit", wordCount: 1 },
+					{ name: "focusly", wordCount: 2 },
+				],
+				["it", "ly", "com"],
+			),
+			[
+				{
+					domain: "hab.it",
+					baseName: "hab",
+					tld: "it",
+					wordCount: 1,
+					hack: "habit",
+				},
+				{
+					domain: "focus.ly",
+					baseName: "focus",
+					tld: "ly",
+					wordCount: 2,
+					hack: "focusly",
+				},
+			],
+		);
+	});
+});
@@ -0,0 +1,132 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+	NAMECHEAP_ERRORS,
+	NamecheapApiError,
+	listDomains,
+} from "../src/namecheap.js";
+import type { NamecheapConfig } from "../src/types.js";
+import { type StandIn, startStandIn } from "./standin.js";
+
+/**
+ * Builds Namecheap settings pointing at a stand-in.
+ * @param api - Running stand-in
+ * @returns Namecheap configuration
+ */
+function configFor(api: StandIn): NamecheapConfig {
+	return {
+		apiUser: "user",
+		apiKey: "key",
+		clientIp: "203.0.113.7",
+		baseUrl: `${api.url}/xml.response`,
+	};
+}
+
+describe("Namecheap API responses", () => {
+	it("reads the command response of an OK reply", async (t) => {
+		const api = await startStandIn(() => ({
+			body: `<?xml version="1.0" encoding="utf-8"?>
+<ApiResponse Status="OK" xmlns="http://api.namecheap.com/xml.response">
+	<Errors />
+	<Warnings />
+	<CommandResponse Type="namecheap.domains.getList">
+		<DomainGetListResult>
+			<Domain Name="tom&amp;jerry.com" Created="01/15/2020" Expires="01/15/2027" IsExpired="false" IsLocked="true" AutoRenew="false" WhoisGuard="ENABLED" IsPremium="false" />
+		</DomainGetListResult>
+	</CommandResponse>
+</ApiResponse>`,
+		}));
+		t.after(() => api.close());
+
+		const domains = await listDomains(configFor(api));
+
+		assert.equal(
+			api.requests[0]?.url.searchParams.get("Command"),
+			"namecheap.domains.getList",
+		);
+		assert.deepEqual(
+			domains.map((d) => [d.domain, d.expiresAt, d.isLocked, d.privacy]),
+			[["tom&jerry.com", "2027-01-15T00:00:00.000Z", true, true]],
+		);
+	});
+
+	it("collects every error and warning of an ERROR reply", async (t) => {
+		const api = await startStandIn(() => ({
+			body: `<?xml version="1.0" encoding="utf-8"?>
+<ApiResponse Status="ERROR" xmlns="http://api.namecheap.com/xml.response">
+	<Errors>
+		<Error Number="1011150">Invalid request IP: 203.0.113.7</Error>
+		<Error>Parameter &quot;ApiKey&quot; &amp; IP rejected</Error>
+		<Error Number="1010102"><![CDATA[Parameter APIKey is missing]]></Error>
+	</Errors>
+	<Warnings>
+		<Warning Number="2011">Sandbox is read-only</Warning>
+	</Warnings>
+	<RequestedCommand>namecheap.domains.getlist</RequestedCommand>
+</ApiResponse>`,
+		}));
+		t.after(() => api.close());
+
+		await assert.rejects(listDomains(configFor(api)), (e: unknown) => {
+			assert.ok(e instanceof NamecheapApiError);
+			assert.deepEqual(e.codes, ["1011150", "1010102"]);
+			assert.ok(e.hasCode(NAMECHEAP_ERRORS.IP_NOT_WHITELISTED));
+			assert.deepEqual(e.errors[1], {
+				number: undefined,
+				message: 'Parameter "ApiKey" & IP rejected',
+			});
+			assert.deepEqual(e.warnings, [
+				{ number: "2011", message: "Sandbox is read-only" },
+			]);
+			assert.equal(
+				e.message,
+				'Invalid request IP: 203.0.113.7; Parameter "ApiKey" & IP rejected; Parameter APIKey is missing (Namecheap error 1011150)',
+			);
+			return true;
+		});
+	});
+
+	it("reports an ERROR reply without messages", async (t) => {
+		const api = await startStandIn(() => ({
+			body: '<ApiResponse Status="ERROR"><Errors /></ApiResponse>',
+		}));
+		t.after(() => api.close());
+
+		await assert.rejects(
+			listDomains(configFor(api)),
+			(e: unknown) =>
+				e instanceof NamecheapApiError &&
+				e.codes.length === 0 &&
+				e.message === "Unknown API error",
+		);
+	});
+
+	for (const [label, body, message] of [
+		[
+			"replies that are not XML",
+			"Service Unavailable",
+			/^Invalid Namecheap response: /,
+		],
+		[
+			"replies with mismatched tags",
+			'<ApiResponse Status="OK"><CommandResponse></ApiResponse>',
+			/^Invalid Namecheap response: Unexpected closing tag/,
+		],
+		[
+			"OK replies without a command response",
+			'<ApiResponse Status="OK"><Errors /></ApiResponse>',
+			/^Namecheap response has no CommandResponse$/,
+		],
+	] as const) {
+		it(`rejects ${label}`, async (t) => {
+			const api = await startStandIn(() => ({ body }));
+			t.after(() => api.close());
+
+			await assert.rejects(listDomains(configFor(api)), (e: unknown) => {
+				assert.ok(e instanceof Error && !(e instanceof NamecheapApiError));
+				assert.match(e.message, message);
+				return true;
+			});
+		});
+	}
+});
@@ -0,0 +1,120 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { getTldPricing } from "../src/namecheap.js";
+import { getPremiumTotalCost, getTotalCost } from "../src/pricing.js";
+import type { TldPricing } from "../src/types.js";
+import { startStandIn } from "./standin.js";
+
+// A promotional first year followed by regular renewals
+const PROMO: TldPricing = {
+	tld: "io",
+	registerPrice: 1.98,
+	renewPrice: 14.98,
+	regularRegisterPrice: 14.98,
+	currency: "USD",
+};
+
+describe("getTotalCost", () => {
+	it("charges the promotional first year, then regular renewals", () => {
+		assert.equal(getTotalCost(PROMO, 1), 1.98);
+		assert.equal(getTotalCost(PROMO, 3), 31.94);
+		assert.equal(getTotalCost(PROMO, 10), 136.8);
+	});
+
+	it("takes the cheaper of an up-front multi-year price and yearly renewals", () => {
+		const pricing: TldPricing = {
+			...PROMO,
+			matrix: {
+				register: [
+					{ years: 1, price: 1.98, regularPrice: 14.98 },
+					{ years: 2, price: 29.96 },
+					{ years: 5, price: 59.9 },
+				],
+				renew: [{ years: 1, price: 14.98 }],
+				transfer: [],
+			},
+		};
+
+		// 1.98 + 14.98 beats 29.96 up front
+		assert.equal(getTotalCost(pricing, 2), 16.96);
+		// No 3-year price is published, so it is renewed yearly
+		assert.equal(getTotalCost(pricing, 3), 31.94);
+		// 59.90 up front beats 1.98 + 4 × 14.98 = 61.90
+		assert.equal(getTotalCost(pricing, 5), 59.9);
+	});
+
+	it("rounds to whole cents", () => {
+		const pricing = { ...PROMO, registerPrice: 0.1, renewPrice: 0.2 };
+		assert.equal(getTotalCost(pricing, 2), 0.3);
+	});
+});
+
+describe("getPremiumTotalCost", () => {
+	it("adds renewals to the premium first year", () => {
+		assert.equal(getPremiumTotalCost(2500, 42.5, 1), 2500);
+		assert.equal(getPremiumTotalCost(2500, 42.5, 3), 2585);
+	});
+
+	it("needs a renewal price only beyond the first year", () => {
+		assert.equal(getPremiumTotalCost(2500, undefined, 1), 2500);
+		assert.equal(getPremiumTotalCost(2500, undefined, 2), undefined);
+	});
+});
+
+describe("Namecheap price matrix", () => {
+	/**
+	 * Builds a users.getPricing reply for .io.
+	 * @param prices - Price elements for the product
+	 * @returns Namecheap XML response
+	 */
+	const pricingXml = (prices: string) => `<?xml version="1.0" encoding="utf-8"?>
+<ApiResponse Status="OK" xmlns="http://api.namecheap.com/xml.response">
+	<CommandResponse Type="namecheap.users.getPricing">
+		<UserGetPricingResult>
+			<ProductType Name="domains">
+				<ProductCategory Name="register">
+					<Product Name="io">${prices}</Product>
+				</ProductCategory>
+			</ProductType>
+		</UserGetPricingResult>
+	</CommandResponse>
+</ApiResponse>`;
+
+	it("multiplies MULTIPLE prices by the duration and keeps ABSOLUTE ones", async (t) => {
+		const api = await startStandIn((request) => {
+			const category = request.url.searchParams.get("ProductCategory");
+			return {
+				body: pricingXml(
+					category === "REGISTER"
+						? `<Price Duration="1" DurationType="YEAR" Price="1.98" RegularPrice="14.98" YourPrice="1.98" PricingType="MULTIPLE" Currency="USD" />
+						<Price Duration="2" DurationType="YEAR" Price="14.98" RegularPrice="14.98" YourPrice="14.98" PricingType="MULTIPLE" Currency="USD" />
+						<Price Duration="5" DurationType="YEAR" Price="59.90" YourPrice="59.90" PricingType="ABSOLUTE" Currency="USD" />
+						<Price Duration="12" DurationType="MONTH" Price="1.00" PricingType="MULTIPLE" Currency="USD" />`
+						: `<Price Duration="1" DurationType="YEAR" Price="14.98" YourPrice="14.98" PricingType="MULTIPLE" Currency="USD" />`,
+				),
+			};
+		});
+		t.after(() => api.close());
+
+		const [pricing] = await getTldPricing(
+			{
+				apiUser: "user",
+				apiKey: "key",
+				clientIp: "203.0.113.7",
+				baseUrl: `${api.url}/xml.response`,
+			},
+			["io"],
+		);
+
+		assert.ok(pricing);
+		assert.deepEqual(pricing.matrix?.register, [
+			{ years: 1, price: 1.98, regularPrice: 14.98 },
+			{ years: 2, price: 29.96, regularPrice: undefined },
+			{ years: 5, price: 59.9, regularPrice: undefined },
+		]);
+		assert.equal(pricing.registerPrice, 1.98);
+		assert.equal(pricing.renewPrice, 14.98);
+		assert.equal(getTotalCost(pricing, 2), 16.96);
+		assert.equal(getTotalCost(pricing, 5), 59.9);
+	});
+});
@@ -0,0 +1,362 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { NamecheapApiError } from "../src/namecheap.js";
+import { comparePricing, getRegistrar } from "../src/registrars.js";
+import type { RegistrarConfig } from "../src/types.js";
+import { type StandInReply, startStandIn } from "./standin.js";
+
+/**
+ * Asks one registrar adapter for prices.
+ * @param name - Adapter name
+ * @param tlds - TLDs to price
+ * @param config - Registrar settings pointing at a stand-in
+ * @returns Quoted prices
+ */
+function getPricing(name: string, tlds: string[], config: RegistrarConfig) {
+	const adapter = getRegistrar(name);
+	assert.ok(adapter, `${name} is registered`);
+	return adapter.getPricing(tlds, config);
+}
+
+describe("porkbun adapter", () => {
+	it("reads the price list", async (t) => {
+		const api = await startStandIn(() => ({
+			body: {
+				status: "SUCCESS",
+				pricing: {
+					com: { registration: "11.08", renewal: "11.08", transfer: "11.08" },
+					io: { registration: "28.12", renewal: "46.18" },
+					xyz: { registration: "2.04", renewal: "12.98" },
+				},
+			},
+		}));
+		t.after(() => api.close());
+
+		const prices = await getPricing("porkbun", ["io", "com"], {
+			porkbun: { baseUrl: api.url },
+		});
+
+		assert.equal(api.requests[0]?.method, "POST");
+		assert.equal(api.requests[0]?.url.pathname, "/pricing/get");
+		assert.deepEqual(prices, [
+			{
+				tld: "com",
+				registerPrice: 11.08,
+				renewPrice: 11.08,
+				transferPrice: 11.08,
+				currency: "USD",
+			},
+			{
+				tld: "io",
+				registerPrice: 28.12,
+				renewPrice: 46.18,
+				transferPrice: undefined,
+				currency: "USD",
+			},
+		]);
+	});
+
+	it("throws the API's error message", async (t) => {
+		const api = await startStandIn(() => ({
+			body: { status: "ERROR", message: "Pricing is temporarily unavailable" },
+		}));
+		t.after(() => api.close());
+
+		await assert.rejects(
+			getPricing("porkbun", ["com"], { porkbun: { baseUrl: api.url } }),
+			/Pricing is temporarily unavailable/,
+		);
+	});
+
+	it("throws on HTTP errors", async (t) => {
+		const api = await startStandIn(() => ({ status: 503, body: {} }));
+		t.after(() => api.close());
+
+		await assert.rejects(
+			getPricing("porkbun", ["com"], { porkbun: { baseUrl: api.url } }),
+			/Porkbun HTTP 503/,
+		);
+	});
+});
+
+// One-year prices the Gandi stand-in quotes; other TLDs are not sold
+const GANDI_PRICES = new Map([
+	["com", { create: 15.5, renew: 17.5 }],
+	["io", { create: 42, renew: 42 }],
+]);
+
+describe("gandi adapter", () => {
+	/**
+	 * Answers a domain/check request like Gandi, selling .com and .io only.
+	 * @param name - Probe domain from the query string
+	 * @returns Stand-in reply
+	 */
+	const checkReply = (name: string): StandInReply => {
+		const tld = name.slice(name.lastIndexOf(".") + 1);
+		const yearly = GANDI_PRICES.get(tld);
+		if (!yearly) return { body: { currency: "USD", products: [] } };
+		const price = (amount: number) => [
+			{
+				min_duration: 1,
+				max_duration: 10,
+				duration_unit: "y",
+				price_before_taxes: amount,
+			},
+		];
+		return {
+			body: {
+				currency: "USD",
+				products: [
+					{
+						name,
+						status: "available",
+						process: "create",
+						prices: price(yearly.create),
+					},
+					{
+						name,
+						status: "available",
+						process: "renew",
+						prices: price(yearly.renew),
+					},
+				],
+			},
+		};
+	};
+
+	it("prices each TLD with a probe domain", async (t) => {
+		const api = await startStandIn((request) =>
+			checkReply(request.url.searchParams.get("name") ?? ""),
+		);
+		t.after(() => api.close());
+
+		const prices = await getPricing("gandi", ["io", "com", "zz"], {
+			gandi: { apiKey: "pat-123", baseUrl: api.url },
+		});
+
+		assert.equal(api.requests.length, 3);
+		for (const request of api.requests) {
+			assert.equal(request.url.pathname, "/domain/check");
+			assert.equal(request.headers.authorization, "Bearer pat-123");
+			assert.deepEqual(request.url.searchParams.getAll("processes"), [
+				"create",
+				"renew",
+				"transfer",
+			]);
+		}
+		assert.deepEqual(
+			prices.map((p) => [p.tld, p.registerPrice, p.renewPrice]),
+			[
+				["com", 15.5, 17.5],
+				["io", 42, 42],
+			],
+		);
+	});
+
+	it("throws when every request fails", async (t) => {
+		const api = await startStandIn(() => ({
+			status: 401,
+			body: { status: "error", message: "Unauthorized" },
+		}));
+		t.after(() => api.close());
+
+		await assert.rejects(
+			getPricing("gandi", ["com", "io"], {
+				gandi: { apiKey: "wrong", baseUrl: api.url },
+			}),
+			/Gandi HTTP 401/,
+		);
+	});
+});
+
+describe("cloudflare adapter", () => {
+	it("prices every TLD in one request", async (t) => {
+		const api = await startStandIn((request) => {
+			const { domains } = JSON.parse(request.body) as { domains: string[] };
+			return {
+				body: {
+					success: true,
+					result: {
+						domains: domains.map((name) => ({
+							name,
+							available: true,
+							pricing: name.endsWith(".com")
+								? {
+										currency: "USD",
+										registration_cost: 10.44,
+										renewal_cost: 10.44,
+										transfer_cost: 10.44,
+									}
+								: undefined,
+						})),
+					},
+				},
+			};
+		});
+		t.after(() => api.close());
+
+		const prices = await getPricing("cloudflare", ["com", "zz"], {
+			cloudflare: { apiToken: "token", accountId: "acc 1", baseUrl: api.url },
+		});
+
+		assert.equal(api.requests.length, 1);
+		assert.equal(api.requests[0]?.method, "POST");
+		assert.equal(
+			api.requests[0]?.url.pathname,
+			"/accounts/acc%201/registrar/domains/check",
+		);
+		assert.equal(api.requests[0]?.headers.authorization, "Bearer token");
+		assert.deepEqual(prices, [
+			{
+				tld: "com",
+				registerPrice: 10.44,
+				renewPrice: 10.44,
+				transferPrice: 10.44,
+				currency: "USD",
+			},
+		]);
+	});
+
+	it("throws the API's error message", async (t) => {
+		const api = await startStandIn(() => ({
+			status: 403,
+			body: {
+				success: false,
+				errors: [{ code: 10000, message: "Authentication error" }],
+			},
+		}));
+		t.after(() => api.close());
+
+		await assert.rejects(
+			getPricing("cloudflare", ["com"], {
+				cloudflare: { apiToken: "wrong", accountId: "acc", baseUrl: api.url },
+			}),
+			/Cloudflare: Authentication error/,
+		);
+	});
+});
+
+describe("namecheap adapter", () => {
+	/**
+	 * Builds a users.getPricing reply with one-year prices.
+	 * @param category - ProductCategory from the request
+	 * @param prices - One-year price by TLD
+	 * @returns Namecheap XML response
+	 */
+	const pricingXml = (category: string, prices: Record<string, string>) =>
+		`<?xml version="1.0" encoding="utf-8"?>
+<ApiResponse Status="OK" xmlns="http://api.namecheap.com/xml.response">
+	<Errors />
+	<CommandResponse Type="namecheap.users.getPricing">
+		<UserGetPricingResult>
+			<ProductType Name="domains">
+				<ProductCategory Name="${category.toLowerCase()}">
+					${Object.entries(prices)
+						.map(
+							([tld, price]) =>
+								`<Product Name="${tld}"><Price Duration="1" DurationType="YEAR" Price="${price}" PricingType="MULTIPLE" RegularPrice="${price}" YourPrice="${price}" Currency="USD" /></Product>`,
+						)
+						.join("")}
+				</ProductCategory>
+			</ProductType>
+		</UserGetPricingResult>
+	</CommandResponse>
+</ApiResponse>`;
+
+	it("combines the register, renew and transfer price lists", async (t) => {
+		const api = await startStandIn((request) => {
+			const category = request.url.searchParams.get("ProductCategory") ?? "";
+			const prices =
+				category === "REGISTER"
+					? { com: "9.58", io: "34.98" }
+					: { com: "15.88", io: "59.98" };
+			return { body: pricingXml(category, prices) };
+		});
+		t.after(() => api.close());
+
+		const prices = await getPricing("namecheap", ["com"], {
+			namecheap: {
+				apiUser: "user",
+				apiKey: "key",
+				clientIp: "203.0.113.7",
+				baseUrl: `${api.url}/xml.response`,
+			},
+		});
+
+		assert.deepEqual(
+			api.requests.map((r) => r.url.searchParams.get("ProductCategory")).sort(),
+			["REGISTER", "RENEW", "TRANSFER"],
+		);
+		assert.equal(
+			api.requests[0]?.url.searchParams.get("ClientIp"),
+			"203.0.113.7",
+		);
+		assert.deepEqual(
+			prices.map((p) => [
+				p.tld,
+				p.registerPrice,
+				p.renewPrice,
+				p.transferPrice,
+			]),
+			[["com", 9.58, 15.88, 15.88]],
+		);
+	});
+
+	it("throws NamecheapApiError for error responses", async (t) => {
+		const api = await startStandIn(() => ({
+			body: `<?xml version="1.0" encoding="utf-8"?>
+<ApiResponse Status="ERROR" xmlns="http://api.namecheap.com/xml.response">
+	<Errors>
+		<Error Number="1011150">Invalid request IP: 203.0.113.7</Error>
+	</Errors>
+</ApiResponse>`,
+		}));
+		t.after(() => api.close());
+
+		await assert.rejects(
+			getPricing("namecheap", ["com"], {
+				namecheap: {
+					apiUser: "user",
+					apiKey: "key",
+					clientIp: "203.0.113.7",
+					baseUrl: `${api.url}/xml.response`,
+				},
+			}),
+			(e: unknown) =>
+				e instanceof NamecheapApiError && e.codes.includes("1011150"),
+		);
+	});
+});
+
+describe("comparePricing", () => {
+	it("reports a failing registrar without failing the comparison", async (t) => {
+		const porkbun = await startStandIn(() => ({
+			body: { status: "SUCCESS", pricing: { com: { registration: "11.08" } } },
+		}));
+		const cloudflare = await startStandIn(() => ({
+			status: 500,
+			body: {
+				success: false,
+				errors: [{ code: 1000, message: "Internal error" }],
+			},
+		}));
+		t.after(() => Promise.all([porkbun.close(), cloudflare.close()]));
+
+		const { prices, errors } = await comparePricing(["com"], {
+			porkbun: { baseUrl: porkbun.url },
+			cloudflare: {
+				apiToken: "token",
+				accountId: "acc",
+				baseUrl: cloudflare.url,
+			},
+		});
+
+		assert.deepEqual(
+			prices.map((p) => [p.registrar, p.tld, p.registerPrice]),
+			[["porkbun", "com", 11.08]],
+		);
+		assert.deepEqual(errors, [
+			{ registrar: "cloudflare", error: "Cloudflare: Internal error" },
+		]);
+	});
+});
@@ -0,0 +1,76 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { generateRuleBasedIdeas } from "../src/rules.js";
+
+const CONCEPT = "habit tracking for remote teams";
+
+describe("generateRuleBasedIdeas", () => {
+	it("gives the same names for the same seed words, options and seed", () => {
+		const options = { count: 25, maxWords: 2, seed: 42 };
+		const first = generateRuleBasedIdeas(CONCEPT, options);
+		const second = generateRuleBasedIdeas(CONCEPT, { ...options });
+
+		assert.equal(first.ideas.length, 25);
+		assert.deepEqual(second, first);
+	});
+
+	it("derives a stable seed from the seed words when none is given", () => {
+		const first = generateRuleBasedIdeas(CONCEPT, { count: 25 });
+		const second = generateRuleBasedIdeas("Habit tracking for REMOTE teams!", {
+			count: 25,
+		});
+		assert.deepEqual(second, first);
+	});
+
+	it("orders the names differently for another seed", () => {
+		const names = (seed: number) =>
+			generateRuleBasedIdeas(CONCEPT, { count: 25, seed }).ideas.map(
+				(i) => i.name,
+			);
+		assert.notDeepEqual(names(1), names(2));
+	});
+
+	it("leaves out excluded names", () => {
+		const all = generateRuleBasedIdeas(CONCEPT, { count: 200, seed: 7 });
+		const exclude = all.ideas.slice(0, 10).map((i) => i.name);
+
+		const rest = generateRuleBasedIdeas(CONCEPT, {
+			count: 200,
+			seed: 7,
+			exclude,
+		});
+
+		assert.ok(rest.ideas.length > 0);
+		for (const name of exclude) {
+			assert.ok(
+				!rest.ideas.some((i) => i.name === name),
+				`${name} was excluded`,
+			);
+		}
+		assert.deepEqual(
+			rest.ideas.map((i) => i.name).sort(),
+			all.ideas
+				.map((i) => i.name)
+				.filter((name) => !exclude.includes(name))
+				.sort(),
+		);
+	});
+
+	it("uses seedWords instead of the concept's words", () => {
+		const { ideas } = generateRuleBasedIdeas("ignored words here", {
+			seedWords: ["lumen"],
+			count: 50,
+		});
+		assert.ok(ideas.length > 0);
+		assert.ok(!ideas.some((i) => /ignor|word|here/.test(i.name)));
+	});
+
+	for (const concept of ["", "the and for", "a ! ?"]) {
+		it(`throws when ${JSON.stringify(concept)} has no seed words`, () => {
+			assert.throws(
+				() => generateRuleBasedIdeas(concept),
+				new Error(`No seed words in "${concept}"`),
+			);
+		});
+	}
+});
@@ -0,0 +1,56 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { scoreName } from "../src/score.js";
+
+/**
+ * Asserts that each name scores higher than the next.
+ * @param names - Names from best to worst
+ */
+function assertRanked(names: string[]): void {
+	const totals = names.map((name) => scoreName(name).total);
+	for (let i = 1; i < names.length; i++) {
+		assert.ok(
+			(totals[i - 1] ?? 0) > (totals[i] ?? 0),
+			`${names[i - 1]} (${totals[i - 1]}) should beat ${names[i]} (${totals[i]})`,
+		);
+	}
+}
+
+describe("scoreName", () => {
+	it("ranks easy words above consonant strings", () => {
+		assertRanked(["habitflow", "strngthx", "xqzt"]);
+		assertRanked(["brightly", "brghtly"]);
+	});
+
+	it("ranks plain names above hyphens and digits", () => {
+		assertRanked(["habitflow", "habit-flow", "habit-flow-4u"]);
+		assertRanked(["focus", "f0cus", "f0cu5"]);
+	});
+
+	it("ranks names of 4-8 letters above very short and very long ones", () => {
+		assertRanked(["loom", "lo", "l"]);
+		assertRanked(["lumen", "lumenworkspaceapp", "mybestdomainnameforyourteam"]);
+	});
+
+	it("ranks names spelled as they sound above ambiguous spellings", () => {
+		assertRanked(["fotoly", "photoly"]);
+		assertRanked(["kind", "knid"]);
+	});
+
+	it("breaks the total into parts", () => {
+		const score = scoreName("Habit-Flow-4U");
+		assert.equal(score.hyphens, 20);
+		assert.equal(score.digits, 65);
+		assert.equal(score.length, 60);
+		for (const value of Object.values(score)) {
+			assert.ok(Number.isInteger(value) && value >= 0 && value <= 100);
+		}
+	});
+
+	it("gives names in other scripts a neutral pronounceability and spelling", () => {
+		const score = scoreName("ドメイン");
+		assert.equal(score.pronounceability, 50);
+		assert.equal(score.spelling, 50);
+		assert.equal(score.length, 100);
+	});
+});
@@ -0,0 +1,74 @@
+import { type IncomingHttpHeaders, createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+
+/**
+ * A request received by a stand-in server.
+ */
+export interface RecordedRequest {
+	method: string;
+	/** Path and query string */
+	url: URL;
+	headers: IncomingHttpHeaders;
+	body: string;
+}
+
+/**
+ * What a stand-in server answers with. Objects are sent as JSON.
+ */
+export interface StandInReply {
+	status?: number;
+	body: unknown;
+}
+
+/**
+ * A local HTTP server standing in for a registrar API.
+ */
+export interface StandIn {
+	/** Base URL to pass as baseUrl (no trailing slash) */
+	url: string;
+	/** Requests received so far, in order */
+	requests: RecordedRequest[];
+	/** Stops the server */
+	close(): Promise<void>;
+}
+
+/**
+ * Starts a stand-in server on a free local port.
+ * @param handler - Builds the reply for each request
+ * @returns The running server
+ */
+export async function startStandIn(
+	handler: (request: RecordedRequest) => StandInReply,
+): Promise<StandIn> {
+	const requests: RecordedRequest[] = [];
+	const server = createServer(async (req, res) => {
+		let body = "";
+		for await (const chunk of req) body += chunk;
+		const request: RecordedRequest = {
+			method: req.method ?? "GET",
+			url: new URL(req.url ?? "/", "http://stand-in"),
+			headers: req.headers,
+			body,
+		};
+		requests.push(request);
+
+		const reply = handler(request);
+		const isText = typeof reply.body === "string";
+		res.writeHead(reply.status ?? 200, {
+			"Content-Type": isText ? "text/xml" : "application/json",
+		});
+		res.end(isText ? reply.body : JSON.stringify(reply.body));
+	});
+
+	await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+	const { port } = server.address() as AddressInfo;
+
+	return {
+		url: `http://127.0.0.1:${port}`,
+		requests,
+		close: () =>
+			new Promise((resolve, reject) =>
+				server.close((e) => (e ? reject(e) : resolve())),
+			),
+	};
+}
@@ -0,0 +1,86 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+	WhoisParseError,
+	isWhoisRateLimited,
+	parseWhoisResponse,
+	registerWhoisParser,
+} from "../src/whoisparsers.js";
+
+// Server with no dedicated parser, so the generic patterns apply
+const SERVER = "whois.generic.test";
+
+// Reply text written for each verdict the generic patterns give
+const GENERIC_REPLIES = {
+	available: 'No match for "EXAMPLE.TEST".\n>>> Last update of database <<<\n',
+	registered: "Domain Name: example.test\nRegistrar: Example Registrar\n",
+	reserved: "Domain Name: example.test\nStatus: reserved\n",
+	"rate-limited": "Too many queries from your address\n",
+} as const;
+
+describe("parseWhoisResponse", () => {
+	for (const [expected, text] of Object.entries(GENERIC_REPLIES)) {
+		it(`reads a generic ${expected} reply`, () => {
+			assert.equal(parseWhoisResponse(SERVER, text), expected);
+		});
+
+		it(`reads a generic ${expected} reply with CRLF line endings`, () => {
+			const crlf = text.replace(/\n/g, "\r\n");
+			assert.equal(parseWhoisResponse(SERVER, crlf), expected);
+		});
+	}
+
+	it("throws WhoisParseError for an unrecognized reply", () => {
+		assert.throws(() => parseWhoisResponse(SERVER, "Hello\n"), WhoisParseError);
+	});
+
+	it("uses a registered parser for its server only", () => {
+		registerWhoisParser("WHOIS.Custom.Test", {
+			available: [/^Free$/m],
+			registered: [/^Taken$/m],
+		});
+
+		assert.equal(
+			parseWhoisResponse("whois.custom.test", "Free\n"),
+			"available",
+		);
+		assert.equal(
+			parseWhoisResponse("whois.custom.test", "Taken\n"),
+			"registered",
+		);
+		assert.throws(
+			() => parseWhoisResponse("whois.custom.test", GENERIC_REPLIES.registered),
+			WhoisParseError,
+		);
+		assert.throws(() => parseWhoisResponse(SERVER, "Free\n"), WhoisParseError);
+	});
+});
+
+describe("isWhoisRateLimited", () => {
+	it("ignores throttling words after the first lines of a reply", () => {
+		const text = [
+			GENERIC_REPLIES.registered,
+			"Name Server: ns1.example.test",
+			"",
+			"Access is subject to a query limit; do not use this service",
+			"for high-volume automated queries.",
+		].join("\n");
+		assert.equal(isWhoisRateLimited(SERVER, text), false);
+		assert.equal(parseWhoisResponse(SERVER, text), "registered");
+	});
+
+	it("matches throttling words at the start of a reply", () => {
+		assert.equal(isWhoisRateLimited(SERVER, "\nQuery limit exceeded\n"), true);
+	});
+
+	it("matches a registered parser's patterns anywhere in the reply", () => {
+		registerWhoisParser("whois.throttled.test", {
+			available: [],
+			registered: [],
+			rateLimited: [/^BLOCKED:/m],
+		});
+		const text = "% Terms of use\n%\n% Notice\n\nBLOCKED: slow down\n";
+		assert.equal(isWhoisRateLimited("whois.throttled.test", text), true);
+		assert.equal(isWhoisRateLimited(SERVER, text), false);
+	});
+});
@@ -0,0 +1,133 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+	XmlParseError,
+	decodeEntities,
+	findAll,
+	findFirst,
+	parseXml,
+} from "../src/xml.js";
+
+describe("decodeEntities", () => {
+	it("decodes named, decimal and hex references", () => {
+		assert.equal(
+			decodeEntities(
+				"&lt;a&gt; &amp; &quot;b&quot; &apos;c&apos; &#233; &#xE9;",
+			),
+			`<a> & "b" 'c' é é`,
+		);
+	});
+
+	it("leaves unknown and out-of-range references as written", () => {
+		assert.equal(
+			decodeEntities("&nbsp; &#x110000; & x"),
+			"&nbsp; &#x110000; & x",
+		);
+	});
+
+	it("decodes each reference once", () => {
+		assert.equal(decodeEntities("&amp;lt;"), "&lt;");
+	});
+});
+
+describe("parseXml", () => {
+	it("reads elements, attributes and text", () => {
+		const root = parseXml(
+			`<?xml version="1.0" encoding="utf-8"?>
+<!DOCTYPE response>
+<Response Status='OK' xmlns="urn:x">
+	<Item Name="a.com" Available="true" />
+	<Item Name="b.com">taken</Item>
+</Response>`,
+		);
+
+		assert.equal(root.name, "Response");
+		assert.deepEqual(root.attributes, { Status: "OK", xmlns: "urn:x" });
+		assert.deepEqual(
+			root.children.map((c) => [c.name, c.attributes.Name, c.text]),
+			[
+				["Item", "a.com", ""],
+				["Item", "b.com", "taken"],
+			],
+		);
+	});
+
+	it("decodes entities inside attributes and text", () => {
+		const root = parseXml(
+			`<Error Message="Contact &quot;Smith &amp; Co&quot; &lt;ok&gt;" Code='&#49;&#x32;'>A &amp; B</Error>`,
+		);
+
+		assert.equal(root.attributes.Message, 'Contact "Smith & Co" <ok>');
+		assert.equal(root.attributes.Code, "12");
+		assert.equal(root.text, "A & B");
+	});
+
+	it("keeps CDATA verbatim and skips comments", () => {
+		const root = parseXml(
+			"<Note><!-- <Hidden>no</Hidden> -->before <![CDATA[<b>&amp;</b>]]> after<!-- end --></Note>",
+		);
+
+		assert.deepEqual(root.children, []);
+		assert.equal(root.text, "before <b>&amp;</b> after");
+	});
+
+	it("keeps prefixed names as written", () => {
+		const root = parseXml('<a:Root xmlns:a="urn:a"><a:Child /></a:Root>');
+		assert.equal(root.name, "a:Root");
+		assert.equal(root.children[0]?.name, "a:Child");
+	});
+
+	for (const [label, xml, message] of [
+		[
+			"a mismatched closing tag",
+			"<a><b></a></b>",
+			/Unexpected closing tag <\/a>/,
+		],
+		["a stray closing tag", "<a></a></b>", /Unexpected closing tag <\/b>/],
+		["an unclosed element", "<a><b></b>", /Unclosed element <a>/],
+		["text outside the root", "<a></a>tail", /Text outside the root element/],
+		["two root elements", "<a /><b />", /More than one root element/],
+		["an empty document", "  ", /No root element/],
+		["an unterminated comment", "<a><!-- open</a>", /Unterminated comment/],
+		[
+			"an unterminated CDATA section",
+			"<a><![CDATA[x</a>",
+			/Unterminated CDATA/,
+		],
+		["an unquoted attribute", "<a b=c></a>", /Malformed tag <a>/],
+		["an invalid tag name", "<1a></1a>", /Invalid tag name/],
+		["junk in a closing tag", "<a></a x>", /Malformed closing tag <\/a>/],
+	] as const) {
+		it(`rejects ${label}`, () => {
+			assert.throws(
+				() => parseXml(xml),
+				(e: unknown) => e instanceof XmlParseError && message.test(e.message),
+			);
+		});
+	}
+
+	it("reports where parsing failed", () => {
+		assert.throws(
+			() => parseXml("<a><b></a>"),
+			(e: unknown) => e instanceof XmlParseError && e.offset === 6,
+		);
+	});
+});
+
+describe("findAll and findFirst", () => {
+	const root = parseXml(
+		"<r><Errors><Error Number='1'/><Group><Error Number='2'/></Group></Errors><Error Number='3'/></r>",
+	);
+
+	it("finds descendants at any depth in document order", () => {
+		assert.deepEqual(
+			findAll(root, "Error").map((e) => e.attributes.Number),
+			["1", "2", "3"],
+		);
+	});
+
+	it("finds the first match, or undefined", () => {
+		assert.equal(findFirst(root, "Error")?.attributes.Number, "1");
+		assert.equal(findFirst(root, "Warning"), undefined);
+	});
+});